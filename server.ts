@@ -0,0 +1,68 @@
+import './server/env';
+import path from 'path';
+import express from 'express';
+import { createServer as createViteServer } from 'vite';
+import analyzeRoutes from './server/routes/analyze';
+import authRoutes from './server/routes/auth';
+import batchRoutes from './server/routes/batches';
+import commentRoutes from './server/routes/comments';
+import dealRoutes from './server/routes/deals';
+import negotiationRoutes from './server/routes/negotiation';
+import notificationRoutes from './server/routes/notifications';
+import sharedRoutes from './server/routes/shared';
+import shareRoutes from './server/routes/shares';
+import workspaceRoutes from './server/routes/workspaces';
+import { startBatchRunner } from './server/services/batchRunner';
+import { startWatchlistScheduler } from './server/services/watchlist';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+  // Screenshot uploads need a larger body than the rest of the API.
+  app.use('/api/analyze', express.json({ limit: '32mb' }));
+  app.use(express.json({ limit: '1mb' }));
+
+  app.use('/api/auth', authRoutes);
+  app.use('/api/deals/:dealId/negotiation', negotiationRoutes);
+  app.use('/api/deals/:dealId/shares', shareRoutes);
+  app.use('/api/deals/:dealId/comments', commentRoutes);
+  app.use('/api/deals', dealRoutes);
+  app.use('/api/analyze', analyzeRoutes);
+  app.use('/api/batches', batchRoutes);
+  app.use('/api/notifications', notificationRoutes);
+  app.use('/api/shared', sharedRoutes);
+  app.use('/api/workspaces', workspaceRoutes);
+
+  app.use('/api', (_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error('Unhandled API error:', err);
+    res.status(err.status || 500).json({ error: err.expose ? err.message : 'Internal server error' });
+  });
+
+  if (process.env.NODE_ENV === 'production') {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  } else {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`CarDeal Scout running on http://localhost:${PORT}`);
+  });
+
+  startWatchlistScheduler();
+  startBatchRunner();
+}
+
+startServer();
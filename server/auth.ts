@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { NextFunction, Request, Response } from 'express';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+let secret = process.env.SESSION_SECRET;
+if (!secret) {
+  console.warn('SESSION_SECRET is not set; sessions will not survive a server restart.');
+  secret = crypto.randomBytes(32).toString('hex');
+}
+const SESSION_SECRET = secret;
+
+export interface SessionUser {
+  id: number;
+  email: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url');
+}
+
+export function createToken(user: SessionUser): string {
+  const payload = Buffer.from(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    exp: Date.now() + TOKEN_TTL_MS,
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyToken(token: string): SessionUser | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { sub, email, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof exp !== 'number' || exp < Date.now()) return null;
+    return { id: sub, email };
+  } catch {
+    return null;
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const user = header?.startsWith('Bearer ') ? verifyToken(header.slice(7)) : null;
+  if (!user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  req.user = user;
+  next();
+}
@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3';
+
+const db = new Database(process.env.DATABASE_PATH || 'cardeal.db');
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+// Each entry runs exactly once, in order, tracked through SQLite's user_version.
+// Append new migrations to the end; never edit one that has already shipped.
+const MIGRATIONS = [
+  `CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE deals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX deals_user_id ON deals(user_id, created_at);`,
+  `ALTER TABLE deals ADD COLUMN watched INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE deals ADD COLUMN last_checked_at TEXT;
+  CREATE TABLE deal_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    price REAL,
+    mileage INTEGER,
+    status TEXT NOT NULL,
+    checked_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX deal_snapshots_deal_id ON deal_snapshots(deal_id, checked_at);
+  CREATE TABLE notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    deal_id INTEGER REFERENCES deals(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    message TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    read_at TEXT
+  );
+  CREATE INDEX notifications_user_id ON notifications(user_id, read_at);`,
+  `CREATE TABLE batches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE batch_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id INTEGER NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    result TEXT,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX batch_items_queue ON batch_items(status, next_attempt_at);
+  CREATE INDEX batch_items_batch_id ON batch_items(batch_id);`,
+  `CREATE TABLE negotiation_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX negotiation_messages_deal_id ON negotiation_messages(deal_id, id);`,
+  `CREATE TABLE deal_shares (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    hide_pitch INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX deal_shares_deal_id ON deal_shares(deal_id);`,
+  `CREATE TABLE workspaces (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    created_by INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE workspace_members (
+    workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member',
+    joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (workspace_id, user_id)
+  );
+  CREATE INDEX workspace_members_user_id ON workspace_members(user_id);
+  CREATE TABLE workspace_invites (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    workspace_id INTEGER NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    invited_by INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (workspace_id, email)
+  );
+  CREATE INDEX workspace_invites_email ON workspace_invites(email);
+  ALTER TABLE deals ADD COLUMN workspace_id INTEGER REFERENCES workspaces(id) ON DELETE SET NULL;
+  CREATE INDEX deals_workspace_id ON deals(workspace_id, created_at);
+  CREATE TABLE deal_comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES deal_comments(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX deal_comments_deal_id ON deal_comments(deal_id, id);
+  CREATE TABLE deal_votes (
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    value INTEGER NOT NULL,
+    PRIMARY KEY (deal_id, user_id)
+  );`,
+  `CREATE TABLE analysis_cache (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url_key TEXT,
+    vin TEXT,
+    data TEXT NOT NULL,
+    analyzed_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX analysis_cache_url_key ON analysis_cache(url_key, id);
+  CREATE INDEX analysis_cache_vin ON analysis_cache(vin, id);`,
+  `ALTER TABLE deals ADD COLUMN notes TEXT NOT NULL DEFAULT '';
+  ALTER TABLE deals ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE deals ADD COLUMN status TEXT NOT NULL DEFAULT 'considering';`,
+  `CREATE TABLE deal_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    deal_id INTEGER NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    analyzed_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX deal_versions_deal_id ON deal_versions(deal_id, id);
+  INSERT INTO deal_versions (deal_id, data, analyzed_at) SELECT id, data, created_at FROM deals;`,
+];
+
+const migrate = db.transaction(() => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.exec(MIGRATIONS[i]);
+  }
+  db.pragma(`user_version = ${MIGRATIONS.length}`);
+});
+
+migrate();
+
+export default db;
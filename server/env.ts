@@ -0,0 +1,4 @@
+import dotenv from 'dotenv';
+
+// Load local overrides first so they win over the shared .env defaults.
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
@@ -0,0 +1,75 @@
+import type { AnalysisErrorCode } from '../src/types';
+
+/**
+ * A failed call to something outside this server: the model, a listing site
+ * or NHTSA. `code` is what the client sees and picks its recovery action by;
+ * `retryable` tells the retry wrapper whether another attempt could help.
+ */
+export class ExternalServiceError extends Error {
+  readonly retryable: boolean = false;
+  readonly code: AnalysisErrorCode = 'upstream_error';
+
+  constructor(public service: string, message: string, public status?: number) {
+    super(message);
+    this.name = 'ExternalServiceError';
+    this.retryable = status === undefined || status >= 500;
+  }
+}
+
+export class RateLimitedError extends ExternalServiceError {
+  readonly retryable = true;
+  readonly code = 'rate_limited';
+
+  /** `retryAfterMs` is the wait the service asked for (Retry-After, or Gemini's retryDelay), if it said. */
+  constructor(service: string, public retryAfterMs?: number) {
+    super(service, `${service} is rate limiting requests`, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class UpstreamTimeoutError extends ExternalServiceError {
+  readonly retryable = true;
+  readonly code = 'upstream_timeout';
+
+  constructor(service: string, public timeoutMs: number) {
+    super(service, `${service} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/** The listing page is gone (404/410) or its host does not exist; retrying will not bring it back. */
+export class ListingUnreachableError extends ExternalServiceError {
+  readonly retryable = false;
+  readonly code = 'listing_unreachable';
+
+  constructor(public url: string, reason: string, status?: number) {
+    super('Listing site', `Could not open the listing at ${url}: ${reason}`, status);
+    this.name = 'ListingUnreachableError';
+  }
+}
+
+/** The model answered, but not with something we can use, even after a corrective re-prompt. */
+export class ModelOutputInvalidError extends ExternalServiceError {
+  readonly retryable = false;
+  readonly code = 'model_output_invalid';
+
+  constructor(message: string, public issues: { field: string; message: string }[]) {
+    super('AI model', message);
+    this.name = 'ModelOutputInvalidError';
+  }
+}
+
+/** The user has used up their model calls for the current quota window. */
+export class QuotaExceededError extends Error {
+  readonly code = 'quota_exceeded';
+
+  constructor(limit: number, public retryAfterMs: number) {
+    super(`You have reached the limit of ${limit} analyses per hour. Please try again later.`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** True for the error an AbortSignal raises when the caller gave up, as opposed to a timeout we set. */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/**
+ * A recorded conversation: `responses[n]` answers the request that already
+ * contains `n` model turns, so corrective re-prompts replay in order too.
+ * Responses without grounding are stored as bare strings.
+ */
+interface Fixture {
+  key: string;
+  responses: (string | LLMResponse)[];
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(key: string, file: string) {
+    super(`No recorded LLM response for "${key}" (expected ${file}). Record one with LLM_RECORD_FIXTURES=true.`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+export function fixturePath(dir: string, key: string): string {
+  const digest = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return path.join(dir, `${digest}.json`);
+}
+
+function turnIndex(request: LLMRequest): number {
+  return request.messages.filter(m => m.role === 'model').length;
+}
+
+/** Replays responses recorded on disk, keyed by the request key. Never touches the network. */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+
+  constructor(private dir = process.env.LLM_FIXTURES_DIR || 'fixtures/llm') {}
+
+  isAvailable(): boolean {
+    return fs.existsSync(this.dir);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const file = fixturePath(this.dir, request.key);
+    if (!fs.existsSync(file)) throw new FixtureNotFoundError(request.key, file);
+
+    const fixture: Fixture = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    const response = fixture.responses[turnIndex(request)];
+    if (response === undefined) throw new FixtureNotFoundError(`${request.key} (turn ${turnIndex(request)})`, file);
+    return typeof response === 'string' ? { text: response } : response;
+  }
+}
+
+/** Passes requests through to a live provider and writes each response to the fixture directory. */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private dir = process.env.LLM_FIXTURES_DIR || 'fixtures/llm') {
+    this.name = `${inner.name}+recording`;
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.generate(request);
+
+    const file = fixturePath(this.dir, request.key);
+    const fixture: Fixture = fs.existsSync(file)
+      ? JSON.parse(await fs.promises.readFile(file, 'utf8'))
+      : { key: request.key, responses: [] };
+    fixture.responses[turnIndex(request)] = response.grounding ? response : response.text;
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+    return response;
+  }
+}
@@ -0,0 +1,84 @@
+import { ApiError, GoogleGenAI, type GroundingMetadata, type Tool } from '@google/genai';
+import { ExternalServiceError, ModelOutputInvalidError, RateLimitedError } from '../errors';
+import type { LLMGrounding, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+/** Gemini reports grounded segments as UTF-8 byte offsets; callers work with string indices. */
+function toCharIndex(text: string, byteOffset: number): number {
+  return Buffer.from(text, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+function toGrounding(text: string, metadata: GroundingMetadata | undefined): LLMGrounding | undefined {
+  const chunks = metadata?.groundingChunks || [];
+  if (!chunks.length) return undefined;
+
+  return {
+    citations: chunks.map(chunk => ({ uri: chunk.web?.uri || chunk.retrievedContext?.uri || '', title: chunk.web?.title })),
+    supports: (metadata?.groundingSupports || []).flatMap(support => {
+      if (!support.segment || !support.groundingChunkIndices?.length) return [];
+      const scores = support.confidenceScores || [];
+      return [{
+        startIndex: toCharIndex(text, support.segment.startIndex ?? 0),
+        endIndex: toCharIndex(text, support.segment.endIndex ?? 0),
+        citationIndices: support.groundingChunkIndices,
+        confidence: scores.length ? Math.max(...scores) : undefined,
+      }];
+    }),
+  };
+}
+
+/** Gemini puts the suggested wait in the error body as `"retryDelay": "37s"`. */
+function retryDelayFrom(message: string): number | undefined {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+}
+
+/** Rate limits and server errors from the SDK, as our error classes. */
+function toServiceError(err: unknown): unknown {
+  if (!(err instanceof ApiError)) return err;
+  if (err.status === 429) return new RateLimitedError('Gemini', retryDelayFrom(err.message));
+  return new ExternalServiceError('Gemini', err.message, err.status);
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenAI | null = null;
+
+  constructor(
+    private apiKey = process.env.GEMINI_API_KEY,
+    private model = process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  // The SDK refuses to construct without a key, so defer it until the first request.
+  private getClient(): GoogleGenAI {
+    if (!this.client) this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    return this.client;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const tools: Tool[] = [];
+    if (request.tools?.urlContext) tools.push({ urlContext: {} });
+    if (request.tools?.googleSearch) tools.push({ googleSearch: {} });
+
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: request.messages.map(m => ({
+        role: m.role,
+        parts: [
+          ...(m.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+          { text: m.text },
+        ],
+      })),
+      config: { tools: tools.length > 0 ? tools : undefined, abortSignal: request.signal },
+    }).catch(err => {
+      throw toServiceError(err);
+    });
+
+    const text = response.text;
+    if (!text) throw new ModelOutputInvalidError('The AI returned an empty response', []);
+    return { text, grounding: toGrounding(text, response.candidates?.[0]?.groundingMetadata) };
+  }
+}
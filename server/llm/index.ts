@@ -0,0 +1,48 @@
+import { FixtureProvider, RecordingProvider } from './fixture';
+import { GeminiProvider } from './gemini';
+import { withRetry } from '../retry';
+import type { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export { FixtureNotFoundError } from './fixture';
+export type { LLMCitation, LLMGrounding, LLMGroundingSupport, LLMImage, LLMMessage, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+// Grounded answers with search can take a while; this bounds each attempt, not the whole call
+const LLM_TIMEOUT_MS = (Number(process.env.LLM_TIMEOUT_SECONDS) || 90) * 1000;
+
+let provider: LLMProvider | null = null;
+
+function createProvider(): LLMProvider {
+  const name = process.env.LLM_PROVIDER || 'gemini';
+  switch (name) {
+    case 'gemini': {
+      const gemini = new GeminiProvider();
+      return process.env.LLM_RECORD_FIXTURES === 'true' ? new RecordingProvider(gemini) : gemini;
+    }
+    case 'fixture':
+      return new FixtureProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "gemini" or "fixture")`);
+  }
+}
+
+/** The provider selected by LLM_PROVIDER, created once per process. */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
+
+/**
+ * `provider.generate` with a timeout on each attempt and backoff on rate
+ * limits, timeouts and server errors. Waits longer than a minute are not
+ * worth holding the request open for, so those rate limits are thrown.
+ */
+export function generateWithRetry(provider: LLMProvider, request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+  return withRetry(attemptSignal => provider.generate({ ...request, signal: attemptSignal }), {
+    service: provider.name,
+    timeoutMs: LLM_TIMEOUT_MS,
+    retries: 2,
+    baseDelayMs: 2000,
+    maxDelayMs: 60_000,
+    signal,
+  });
+}
@@ -0,0 +1,54 @@
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+  images?: LLMImage[];
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Let the model read URLs in the prompt and ground answers in web search. */
+  tools?: {
+    urlContext?: boolean;
+    googleSearch?: boolean;
+  };
+  /** Stable identifier for this conversation (the listing URL or a content hash), used by replay providers. */
+  key: string;
+  /** Aborts the request: the caller gave up or its timeout passed. */
+  signal?: AbortSignal;
+}
+
+export interface LLMCitation {
+  uri: string;
+  title?: string;
+}
+
+/** A span of the response text backed by one or more citations. Offsets are character indices into `text`. */
+export interface LLMGroundingSupport {
+  startIndex: number;
+  endIndex: number;
+  citationIndices: number[];
+  confidence?: number; // 0-1
+}
+
+export interface LLMGrounding {
+  citations: LLMCitation[];
+  supports: LLMGroundingSupport[];
+}
+
+export interface LLMResponse {
+  text: string;
+  /** Web sources the provider says the answer was grounded in, when it reports them. */
+  grounding?: LLMGrounding;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** Whether the provider has what it needs (keys, fixture files) to serve requests. */
+  isAvailable(): boolean;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
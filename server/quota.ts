@@ -0,0 +1,39 @@
+import { QuotaExceededError } from './errors';
+
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+export const QUOTA_PER_WINDOW = Number(process.env.ANALYZE_QUOTA_PER_HOUR) || 30;
+
+// Analysis timestamps per user id, trimmed to the current quota window.
+const recentAnalyses = new Map<number, number[]>();
+
+function currentWindow(userId: number): number[] {
+  const now = Date.now();
+  const timestamps = (recentAnalyses.get(userId) || []).filter(t => now - t < QUOTA_WINDOW_MS);
+  recentAnalyses.set(userId, timestamps);
+  return timestamps;
+}
+
+export function remainingQuota(userId: number): number {
+  return Math.max(0, QUOTA_PER_WINDOW - currentWindow(userId).length);
+}
+
+/** How long until the oldest analysis in the window expires and frees a slot. */
+export function quotaResetsInMs(userId: number): number {
+  const timestamps = currentWindow(userId);
+  if (timestamps.length < QUOTA_PER_WINDOW) return 0;
+  return Math.max(0, timestamps[0] + QUOTA_WINDOW_MS - Date.now());
+}
+
+/** Reserves `count` analyses for the user, or returns false without reserving any. */
+export function consumeQuota(userId: number, count = 1): boolean {
+  const timestamps = currentWindow(userId);
+  if (timestamps.length + count > QUOTA_PER_WINDOW) return false;
+  const now = Date.now();
+  for (let i = 0; i < count; i++) timestamps.push(now);
+  return true;
+}
+
+/** What to report when consumeQuota refuses, including when the next slot frees up. */
+export function quotaExceeded(userId: number): QuotaExceededError {
+  return new QuotaExceededError(QUOTA_PER_WINDOW, quotaResetsInMs(userId));
+}
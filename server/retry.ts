@@ -0,0 +1,115 @@
+import { ExternalServiceError, isAbortError, RateLimitedError, UpstreamTimeoutError } from './errors';
+
+export interface RetryOptions {
+  /** Names the service in errors and logs, e.g. "Gemini" or "NHTSA". */
+  service: string;
+  /** Limit for each attempt, not the whole call. */
+  timeoutMs: number;
+  /** Attempts after the first. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Cancels the call, including any wait between attempts. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/** Exponential backoff with jitter: somewhere in the upper half of base * 2^attempt, capped. */
+export function backoffDelay(attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/** Reads a Retry-After header, which is either seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Turns whatever a call threw into one of our error classes, where we can tell what it was. */
+function classify(err: any, service: string, timedOut: boolean, timeoutMs: number): unknown {
+  if (err instanceof ExternalServiceError) return err;
+  if (timedOut) return new UpstreamTimeoutError(service, timeoutMs);
+  if (isAbortError(err)) return err;
+  if (err?.status === 429) return new RateLimitedError(service);
+  if (typeof err?.status === 'number') return new ExternalServiceError(service, err.message, err.status);
+  // fetch rejects with a TypeError on network failures; those are worth another try
+  if (err instanceof TypeError) return new ExternalServiceError(service, `${service} could not be reached: ${err.message}`);
+  return err;
+}
+
+/**
+ * Runs `call` with a per-attempt timeout, retrying retryable failures with
+ * backoff. A rate limit waits at least as long as the service asked, and is
+ * thrown straight away when that is longer than `maxDelayMs`. Aborting
+ * `signal` stops at once with the signal's reason.
+ */
+export async function withRetry<T>(call: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const {
+    service,
+    timeoutMs,
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+      return await call(signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (raw) {
+      if (signal?.aborted) throw signal.reason;
+      const err = classify(raw, service, timeout.aborted, timeoutMs);
+      if (!(err instanceof ExternalServiceError) || !err.retryable || attempt >= retries) throw err;
+
+      let delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      if (err instanceof RateLimitedError && err.retryAfterMs !== undefined) {
+        if (err.retryAfterMs > maxDelayMs) throw err;
+        delay = Math.max(delay, err.retryAfterMs);
+      }
+      console.warn(`[retry] ${service} attempt ${attempt + 1} failed (${err.message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * fetch with withRetry's timeouts and retries. 429s become RateLimitedError
+ * (honoring Retry-After) and 5xx responses are retried; any other response,
+ * including 4xx, is returned for the caller to judge.
+ */
+export function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions): Promise<Response> {
+  return withRetry(async (signal) => {
+    const response = await fetch(url, { ...init, signal });
+    if (response.status === 429) {
+      throw new RateLimitedError(options.service, parseRetryAfter(response.headers.get('retry-after')));
+    }
+    if (response.status >= 500) {
+      throw new ExternalServiceError(options.service, `${options.service} responded with ${response.status}`, response.status);
+    }
+    return response;
+  }, options);
+}
@@ -0,0 +1,59 @@
+import type { Response } from 'express';
+import {
+  ExternalServiceError,
+  ListingUnreachableError,
+  ModelOutputInvalidError,
+  QuotaExceededError,
+  RateLimitedError,
+  UpstreamTimeoutError,
+} from '../errors';
+import { FixtureNotFoundError } from '../llm';
+import type { AnalysisErrorBody } from '../../src/types';
+
+/** Maps a failed analysis (or other model call) to the status and body the client shows. */
+export function describeAnalysisError(err: any, fallback: string): { status: number; body: AnalysisErrorBody & { issues?: unknown } } {
+  if (err instanceof RateLimitedError) {
+    const retryAfterSeconds = err.retryAfterMs === undefined ? undefined : Math.ceil(err.retryAfterMs / 1000);
+    return {
+      status: 429,
+      body: {
+        code: err.code,
+        error: `${err.service} is rate limiting us right now. Please wait ${retryAfterSeconds ? `about ${retryAfterSeconds} seconds` : 'a minute'} and try again.`,
+        retryAfterSeconds: retryAfterSeconds ?? 60,
+      },
+    };
+  }
+  if (err instanceof QuotaExceededError) {
+    return { status: 429, body: { code: err.code, error: err.message, retryAfterSeconds: Math.ceil(err.retryAfterMs / 1000) } };
+  }
+  if (err instanceof FixtureNotFoundError) {
+    return { status: 404, body: { error: err.message } };
+  }
+  if (err instanceof ListingUnreachableError) {
+    return { status: 422, body: { code: err.code, error: `${err.message}. If it is still up, paste its text or upload screenshots instead.` } };
+  }
+  if (err instanceof ModelOutputInvalidError) {
+    return {
+      status: 502,
+      body: {
+        code: err.code,
+        error: err.issues.length
+          ? `The AI returned an incomplete analysis (${err.issues.map(i => i.field).join(', ')}). Please try again.`
+          : `${err.message}. Please try again.`,
+        issues: err.issues.length ? err.issues : undefined,
+      },
+    };
+  }
+  if (err instanceof UpstreamTimeoutError) {
+    return { status: 504, body: { code: err.code, error: `${err.message}. It may be busy; please try again.` } };
+  }
+  if (err instanceof ExternalServiceError) {
+    return { status: 502, body: { code: err.code, error: fallback } };
+  }
+  return { status: 502, body: { error: fallback } };
+}
+
+export function sendAnalysisError(res: Response, err: any, fallback: string) {
+  const { status, body } = describeAnalysisError(err, fallback);
+  res.status(status).json(body);
+}
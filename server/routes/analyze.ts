@@ -0,0 +1,236 @@
+import { Router } from 'express';
+import { calculateNegotiationTargets } from '../../src/lib/financing';
+import { isHttpUrl } from '../../src/lib/urls';
+import { requireAuth } from '../auth';
+import db from '../db';
+import { getLLMProvider } from '../llm';
+import { isAbortError } from '../errors';
+import { consumeQuota, quotaExceeded } from '../quota';
+import { describeAnalysisError, sendAnalysisError } from './analysisErrors';
+import { findCachedAnalysis, storeAnalysis } from '../services/analysisCache';
+import { AnalysisValidationError, parseCarAnalysis, upgradeStoredAnalysis } from '../services/analysisSchema';
+import { analyzeCarListing, type ProgressOptions } from '../services/analysisService';
+import { recordVersion } from '../services/dealVersions';
+import { findOwnDeal } from '../services/workspaces';
+import { writeNegotiationPitch } from '../services/negotiationService';
+import type { AnalysisErrorBody, AnalysisProgressEvent, CarAnalysis, FinancingInputs, FinancingPlan, ListingSource } from '../../src/types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const MIN_TEXT_LENGTH = 30;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_IMAGES = 6;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const ANALYSIS_FAILED = 'Failed to analyze this listing. Please try again.';
+
+/**
+ * Accepts either the original `{ url }` body or `{ source }` describing pasted
+ * text or screenshots. Returns an error message when the body is unusable.
+ */
+function parseListingSource(body: any): ListingSource | string {
+  const source = body?.source ?? (body?.url !== undefined ? { kind: 'url', url: body.url } : null);
+  const url = source?.url === undefined || source?.url === '' ? undefined : source.url;
+  if (url !== undefined && !isHttpUrl(url)) return 'The listing URL is not a valid http(s) link';
+
+  switch (source?.kind) {
+    case 'url':
+      return url ? { kind: 'url', url } : 'A valid listing URL is required';
+    case 'text': {
+      const text = typeof source.text === 'string' ? source.text.trim() : '';
+      if (text.length < MIN_TEXT_LENGTH) return `Paste at least ${MIN_TEXT_LENGTH} characters of the listing`;
+      if (text.length > MAX_TEXT_LENGTH) return `Listing text is limited to ${MAX_TEXT_LENGTH.toLocaleString()} characters`;
+      return { kind: 'text', text, url };
+    }
+    case 'images': {
+      const images = Array.isArray(source.images) ? source.images : [];
+      if (images.length === 0) return 'Upload at least one screenshot';
+      if (images.length > MAX_IMAGES) return `Upload at most ${MAX_IMAGES} screenshots`;
+      for (const image of images) {
+        if (!IMAGE_TYPES.includes(image?.mimeType) || typeof image?.data !== 'string') {
+          return 'Screenshots must be PNG, JPEG or WebP images';
+        }
+        if (Buffer.byteLength(image.data, 'base64') > MAX_IMAGE_BYTES) {
+          return 'Each screenshot must be under 4 MB';
+        }
+      }
+      return { kind: 'images', images: images.map((i: any) => ({ mimeType: i.mimeType, data: i.data })), url };
+    }
+    default:
+      return 'A listing URL, pasted text or screenshots are required';
+  }
+}
+
+function parseFinancingInputs(raw: any): FinancingInputs | string {
+  if (!raw || typeof raw !== 'object') return 'Financing inputs are required';
+  const { monthlyBudget, apr, termMonths, downPayment } = raw;
+  if (typeof monthlyBudget !== 'number' || monthlyBudget < 0) return 'Monthly budget cannot be negative';
+  if (typeof apr !== 'number' || apr < 0 || apr > 40) return 'APR must be between 0 and 40%';
+  if (!Number.isInteger(termMonths) || termMonths < 0 || termMonths > 96) return 'Loan term must be 0-96 months';
+  if (typeof downPayment !== 'number' || downPayment < 0) return 'Down payment cannot be negative';
+  return { monthlyBudget, apr, termMonths, downPayment };
+}
+
+type AnalysisOutcome = { analysis: CarAnalysis } | ({ status: number } & AnalysisErrorBody);
+
+/**
+ * Serves a recent analysis of the same listing URL from the cache
+ * (without using quota) unless `refresh` is set, otherwise runs the pipeline.
+ * Only URL sources are looked up and stored by URL: pasted text or
+ * screenshots are what the user wants analyzed, even when they name a URL.
+ * The result carries `cache` with when it was analyzed and what changed since
+ * the run before. Model failures are thrown for the caller to report.
+ */
+async function runAnalysis(
+  userId: number,
+  source: ListingSource,
+  refresh: boolean,
+  { onProgress, signal }: ProgressOptions = {},
+): Promise<AnalysisOutcome> {
+  const label = source.url || `${source.kind} listing`;
+  const cacheUrl = source.kind === 'url' ? source.url : undefined;
+  // Only the same listing URL is served from the cache. A VIN seen on another
+  // listing is not: that listing's price, mileage and seller are not this
+  // one's. Its earlier run still shows up in the result's changes.
+  if (!refresh && cacheUrl) {
+    const cached = findCachedAnalysis(cacheUrl);
+    if (cached) {
+      console.log(`[analyze] user=${userId} source=${label} served from cache`);
+      return { analysis: cached };
+    }
+  }
+  if (!getLLMProvider().isAvailable()) {
+    return { status: 503, error: 'Analysis service is not configured' };
+  }
+
+  const startedAt = Date.now();
+  try {
+    if (!consumeQuota(userId)) {
+      const { status, body } = describeAnalysisError(quotaExceeded(userId), ANALYSIS_FAILED);
+      return { status, ...body };
+    }
+
+    const analysis = await analyzeCarListing(source, undefined, { onProgress, signal });
+    console.log(`[analyze] user=${userId} source=${label} ok in ${Date.now() - startedAt}ms`);
+    return { analysis: storeAnalysis(cacheUrl, analysis) };
+  } catch (err) {
+    if (isAbortError(err)) {
+      console.log(`[analyze] user=${userId} source=${label} cancelled after ${Date.now() - startedAt}ms`);
+    } else {
+      console.error(`[analyze] user=${userId} source=${label} failed in ${Date.now() - startedAt}ms:`, err);
+    }
+    throw err;
+  }
+}
+
+router.post('/', async (req, res) => {
+  const source = parseListingSource(req.body);
+  if (typeof source === 'string') {
+    return res.status(400).json({ error: source });
+  }
+
+  try {
+    const outcome = await runAnalysis(req.user!.id, source, req.body?.refresh === true);
+    if ('error' in outcome) {
+      const { status, ...body } = outcome;
+      return res.status(status).json(body);
+    }
+    res.json(outcome.analysis);
+  } catch (err: any) {
+    sendAnalysisError(res, err, ANALYSIS_FAILED);
+  }
+});
+
+/**
+ * Same as POST / but streams newline-delimited JSON: a `stage` event as each
+ * pipeline step starts and ends, `partial` results as soon as they are known,
+ * and finally one `result` or `error` event. Closing the connection cancels
+ * the analysis.
+ */
+router.post('/stream', async (req, res) => {
+  const source = parseListingSource(req.body);
+  if (typeof source === 'string') {
+    return res.status(400).json({ error: source });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no',
+  });
+  const cancel = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) cancel.abort();
+  });
+  const send = (event: AnalysisProgressEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const outcome = await runAnalysis(req.user!.id, source, req.body?.refresh === true, { onProgress: send, signal: cancel.signal });
+    send('error' in outcome ? { type: 'error', ...outcome } : { type: 'result', analysis: outcome.analysis });
+  } catch (err: any) {
+    if (!isAbortError(err)) {
+      const { status, body } = describeAnalysisError(err, ANALYSIS_FAILED);
+      send({ type: 'error', status, ...body });
+    }
+  }
+  res.end();
+});
+
+/**
+ * Rewrites the negotiation pitch around opening/target/walk-away prices
+ * computed from the user's budget. Works on a saved deal (`dealId`, and the
+ * new pitch is stored with it) or on an unsaved `analysis` sent by the client.
+ */
+router.post('/pitch', async (req, res) => {
+  const inputs = parseFinancingInputs(req.body?.financing);
+  if (typeof inputs === 'string') {
+    return res.status(400).json({ error: inputs });
+  }
+
+  const { dealId } = req.body;
+  let analysis: CarAnalysis;
+  if (dealId !== undefined) {
+    const row = findOwnDeal(req.user!.id, dealId);
+    if (!row) return res.status(404).json({ error: 'Deal not found' });
+    analysis = upgradeStoredAnalysis(JSON.parse(row.data));
+    if (typeof analysis.price !== 'number' || typeof analysis.marketComparison?.averagePrice !== 'number') {
+      return res.status(400).json({ error: 'An analysis with a price and market comparison is required' });
+    }
+  } else {
+    // The prompt reads most of the analysis, so an unsaved one gets the same checks as a model reply
+    try {
+      analysis = parseCarAnalysis(req.body.analysis);
+    } catch (err) {
+      if (!(err instanceof AnalysisValidationError)) throw err;
+      return res.status(400).json({ error: `Invalid analysis: ${err.issues.map(i => `${i.field} (${i.message})`).join(', ')}` });
+    }
+  }
+
+  if (!getLLMProvider().isAvailable()) {
+    return res.status(503).json({ error: 'Analysis service is not configured' });
+  }
+  if (!consumeQuota(req.user!.id)) {
+    return sendAnalysisError(res, quotaExceeded(req.user!.id), ANALYSIS_FAILED);
+  }
+
+  const targets = calculateNegotiationTargets(analysis, inputs);
+  try {
+    const negotiationPitch = await writeNegotiationPitch(analysis, targets);
+    const financing: FinancingPlan = { inputs, targets, calculatedAt: new Date().toISOString() };
+    if (dealId !== undefined) {
+      const data = { ...analysis, negotiationPitch, financing };
+      db.prepare('UPDATE deals SET data = ? WHERE id = ?').run(JSON.stringify(data), Number(dealId));
+      recordVersion(Number(dealId), data);
+    }
+    res.json({ negotiationPitch, financing });
+  } catch (err: any) {
+    console.error(`[analyze] user=${req.user!.id} pitch failed:`, err);
+    sendAnalysisError(res, err, 'Failed to write a negotiation pitch. Please try again.');
+  }
+});
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import db from '../db';
+import { createToken, hashPassword, verifyPassword } from '../auth';
+import { isValidEmail } from '../validation';
+
+const router = Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+  id: number;
+  email: string;
+  password_hash: string;
+}
+
+function readCredentials(body: any): { email: string; password: string } | null {
+  if (typeof body?.email !== 'string' || typeof body?.password !== 'string') return null;
+  return { email: body.email.trim().toLowerCase(), password: body.password };
+}
+
+router.post('/signup', async (req, res) => {
+  const credentials = readCredentials(req.body);
+  if (!credentials || !isValidEmail(credentials.email)) {
+    return res.status(400).json({ error: 'A valid email and password are required' });
+  }
+  if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  const existing = db.prepare('SELECT id FROM users WHERE email = ?').get(credentials.email);
+  if (existing) {
+    return res.status(409).json({ error: 'An account with this email already exists' });
+  }
+
+  const passwordHash = await hashPassword(credentials.password);
+  const result = db
+    .prepare('INSERT INTO users (email, password_hash) VALUES (?, ?)')
+    .run(credentials.email, passwordHash);
+
+  const user = { id: Number(result.lastInsertRowid), email: credentials.email };
+  res.status(201).json({ token: createToken(user), user: { email: user.email } });
+});
+
+router.post('/login', async (req, res) => {
+  const credentials = readCredentials(req.body);
+  if (!credentials) {
+    return res.status(400).json({ error: 'Email and password are required' });
+  }
+
+  const row = db
+    .prepare('SELECT id, email, password_hash FROM users WHERE email = ?')
+    .get(credentials.email) as UserRow | undefined;
+
+  if (!row || !(await verifyPassword(credentials.password, row.password_hash))) {
+    return res.status(401).json({ error: 'Invalid email or password' });
+  }
+
+  const user = { id: row.id, email: row.email };
+  res.json({ token: createToken(user), user: { email: user.email } });
+});
+
+export default router;
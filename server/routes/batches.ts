@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import db from '../db';
+import { isHttpUrl } from '../../src/lib/urls';
+import { requireAuth } from '../auth';
+import { getLLMProvider } from '../llm';
+import { consumeQuota, remainingQuota } from '../quota';
+import { findCachedAnalysis } from '../services/analysisCache';
+import { upgradeStoredAnalysis } from '../services/analysisSchema';
+import { kickBatchRunner } from '../services/batchRunner';
+import type { Batch, BatchItem } from '../../src/types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const MAX_BATCH_URLS = 50;
+
+interface BatchRow {
+  id: number;
+  created_at: string;
+}
+
+interface BatchItemRow {
+  id: number;
+  batch_id: number;
+  url: string;
+  status: BatchItem['status'];
+  attempts: number;
+  error: string | null;
+  result: string | null;
+}
+
+function loadBatch(userId: number, id: number): Batch | null {
+  const batch = db
+    .prepare('SELECT id, created_at FROM batches WHERE id = ? AND user_id = ?')
+    .get(id, userId) as BatchRow | undefined;
+  if (!batch) return null;
+
+  const items = db
+    .prepare('SELECT id, batch_id, url, status, attempts, error, result FROM batch_items WHERE batch_id = ? ORDER BY id')
+    .all(id) as BatchItemRow[];
+
+  return {
+    id: batch.id,
+    createdAt: batch.created_at,
+    items: items.map(item => ({
+      id: item.id,
+      url: item.url,
+      status: item.status,
+      attempts: item.attempts,
+      // Errors on queued items are from earlier attempts that will be retried.
+      error: item.status === 'failed' ? item.error : null,
+      result: item.result ? upgradeStoredAnalysis(JSON.parse(item.result)) : null,
+    })),
+  };
+}
+
+router.get('/', (req, res) => {
+  const rows = db
+    .prepare('SELECT id FROM batches WHERE user_id = ? ORDER BY id DESC LIMIT 10')
+    .all(req.user!.id) as { id: number }[];
+  res.json(rows.map(row => loadBatch(req.user!.id, row.id)));
+});
+
+router.get('/:id', (req, res) => {
+  const batch = loadBatch(req.user!.id, Number(req.params.id));
+  if (!batch) {
+    return res.status(404).json({ error: 'Batch not found' });
+  }
+  res.json(batch);
+});
+
+router.post('/', (req, res) => {
+  const { urls } = req.body ?? {};
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return res.status(400).json({ error: 'Provide at least one listing URL' });
+  }
+  const unique: string[] = [...new Set<string>(urls.map((url: unknown) => (typeof url === 'string' ? url.trim() : '')))];
+  const invalid = unique.filter(url => !isHttpUrl(url));
+  if (invalid.length > 0) {
+    return res.status(400).json({ error: `Invalid listing URLs: ${invalid.slice(0, 3).join(', ')}` });
+  }
+  if (unique.length > MAX_BATCH_URLS) {
+    return res.status(400).json({ error: `A batch can contain at most ${MAX_BATCH_URLS} URLs` });
+  }
+  if (!getLLMProvider().isAvailable()) {
+    return res.status(503).json({ error: 'Analysis service is not configured' });
+  }
+  // Listings with a fresh cached analysis cost nothing. Their items are stored as done
+  // right away, so a cache entry that expires before the runner gets there is not re-run for free.
+  const cached = new Map(unique.map(url => [url, findCachedAnalysis(url)]));
+  const uncached = unique.filter(url => !cached.get(url)).length;
+  if (!consumeQuota(req.user!.id, uncached)) {
+    return res.status(429).json({
+      error: `This batch needs ${uncached} analyses but you only have ${remainingQuota(req.user!.id)} left this hour.`,
+    });
+  }
+
+  const createBatch = db.transaction((userId: number, batchUrls: string[]) => {
+    const batchId = Number(db.prepare('INSERT INTO batches (user_id) VALUES (?)').run(userId).lastInsertRowid);
+    const insertItem = db.prepare('INSERT INTO batch_items (batch_id, url) VALUES (?, ?)');
+    const insertDone = db.prepare("INSERT INTO batch_items (batch_id, url, status, result) VALUES (?, ?, 'done', ?)");
+    for (const url of batchUrls) {
+      const analysis = cached.get(url);
+      if (analysis) insertDone.run(batchId, url, JSON.stringify(analysis));
+      else insertItem.run(batchId, url);
+    }
+    return batchId;
+  });
+
+  const batchId = createBatch(req.user!.id, unique);
+  console.log(`[batch] user=${req.user!.id} queued batch ${batchId} with ${unique.length} URLs`);
+  kickBatchRunner();
+  res.status(201).json(loadBatch(req.user!.id, batchId));
+});
+
+export default router;
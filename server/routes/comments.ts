@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import { findVisibleDeal } from '../services/workspaces';
+import type { DealComment } from '../../src/types';
+
+// Mounted at /api/deals/:dealId/comments; anyone who can see the deal can discuss it.
+const router = Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+const MAX_COMMENT_LENGTH = 2000;
+
+type DealParams = { dealId: string };
+
+interface CommentRow {
+  id: number;
+  parent_id: number | null;
+  user_id: number;
+  author: string;
+  text: string;
+  created_at: string;
+}
+
+const COMMENT_SELECT = `SELECT deal_comments.id, deal_comments.parent_id, deal_comments.user_id, users.email AS author,
+    deal_comments.text, deal_comments.created_at
+  FROM deal_comments JOIN users ON users.id = deal_comments.user_id`;
+
+function toComment(row: CommentRow, userId: number): DealComment {
+  return {
+    id: row.id,
+    parentId: row.parent_id,
+    author: row.author,
+    text: row.text,
+    createdAt: row.created_at,
+    mine: row.user_id === userId,
+  };
+}
+
+// Oldest first; the client nests replies under their parent.
+router.get<DealParams>('/', (req, res) => {
+  const deal = findVisibleDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const rows = db
+    .prepare(`${COMMENT_SELECT} WHERE deal_comments.deal_id = ? ORDER BY deal_comments.id`)
+    .all(deal.id) as CommentRow[];
+  res.json(rows.map(row => toComment(row, req.user!.id)));
+});
+
+router.post<DealParams>('/', (req, res) => {
+  const deal = findVisibleDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+  if (!text || text.length > MAX_COMMENT_LENGTH) {
+    return res.status(400).json({ error: `Comments must be 1-${MAX_COMMENT_LENGTH.toLocaleString()} characters` });
+  }
+  const parentId = req.body?.parentId ?? null;
+  if (parentId !== null) {
+    const parent = Number.isInteger(parentId)
+      && db.prepare('SELECT 1 FROM deal_comments WHERE id = ? AND deal_id = ?').get(parentId, deal.id);
+    if (!parent) {
+      return res.status(400).json({ error: 'The comment you are replying to does not exist' });
+    }
+  }
+
+  const result = db
+    .prepare('INSERT INTO deal_comments (deal_id, user_id, parent_id, text) VALUES (?, ?, ?, ?)')
+    .run(deal.id, req.user!.id, parentId, text);
+  const row = db.prepare(`${COMMENT_SELECT} WHERE deal_comments.id = ?`).get(result.lastInsertRowid) as CommentRow;
+  res.status(201).json(toComment(row, req.user!.id));
+});
+
+// Authors can delete their own comments; replies go with them.
+router.delete<DealParams & { commentId: string }>('/:commentId', (req, res) => {
+  const deal = findVisibleDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const result = db
+    .prepare('DELETE FROM deal_comments WHERE id = ? AND deal_id = ? AND user_id = ?')
+    .run(Number(req.params.commentId), deal.id, req.user!.id);
+  if (result.changes === 0) {
+    return res.status(404).json({ error: 'Comment not found' });
+  }
+  res.status(204).end();
+});
+
+export default router;
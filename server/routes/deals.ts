@@ -0,0 +1,341 @@
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import { getLLMProvider } from '../llm';
+import { consumeQuota, quotaExceeded } from '../quota';
+import { sendAnalysisError } from './analysisErrors';
+import { storeAnalysis } from '../services/analysisCache';
+import { upgradeStoredAnalysis } from '../services/analysisSchema';
+import { analyzeCarListing } from '../services/analysisService';
+import { getVersions, recordVersion } from '../services/dealVersions';
+import { getPriceHistories, startWatching } from '../services/watchlist';
+import { findOwnDeal, findVisibleDeal, getDealFeedback, isWorkspaceMember, type OwnDeal } from '../services/workspaces';
+import { DEAL_STATUSES, MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from '../../src/lib/savedDeals';
+import { calculateTco } from '../../src/lib/tco';
+import { canonicalListingUrl, isHttpUrl } from '../../src/lib/urls';
+import type { CarAnalysis, DealStatus, DealVotes, PricePoint, TcoEstimate, TcoInputs } from '../../src/types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+interface DealRow {
+  id: number;
+  user_id: number;
+  workspace_id: number | null;
+  url: string;
+  data: string;
+  watched: number;
+  created_at: string;
+  notes: string;
+  tags: string;
+  status: DealStatus;
+  saved_by: string;
+  version_count: number;
+}
+
+const MAX_NOTES_LENGTH = 5000;
+
+const DEAL_SELECT = `SELECT deals.id, deals.user_id, deals.workspace_id, deals.url, deals.data, deals.watched, deals.created_at,
+    deals.notes, deals.tags, deals.status, users.email AS saved_by,
+    (SELECT COUNT(*) FROM deal_versions WHERE deal_versions.deal_id = deals.id) AS version_count
+  FROM deals JOIN users ON users.id = deals.user_id`;
+
+interface DealExtras {
+  priceHistory?: PricePoint[];
+  votes?: DealVotes;
+  commentCount?: number;
+}
+
+// The frontend treats a saved deal as a CarAnalysis plus its listing URL and id.
+function toDeal(row: DealRow, userId: number, { priceHistory = [], votes = { up: 0, down: 0, mine: 0 }, commentCount = 0 }: DealExtras = {}) {
+  return {
+    ...upgradeStoredAnalysis(JSON.parse(row.data)),
+    _id: String(row.id),
+    url: row.url,
+    createdAt: row.created_at,
+    watched: Boolean(row.watched),
+    priceHistory,
+    workspaceId: row.workspace_id,
+    savedBy: row.saved_by,
+    isOwn: row.user_id === userId,
+    votes,
+    commentCount,
+    notes: row.user_id === userId ? row.notes : undefined,
+    tags: JSON.parse(row.tags) as string[],
+    status: row.status,
+    versionCount: row.version_count,
+  };
+}
+
+function dealWithExtras(row: DealRow, userId: number) {
+  return toDeal(row, userId, {
+    priceHistory: getPriceHistories([row.id]).get(row.id),
+    ...getDealFeedback([row.id], userId).get(row.id),
+  });
+}
+
+/** Reads an optional workspace id from the client; null means the personal list. */
+function parseWorkspaceId(raw: unknown, userId: number): number | null | string {
+  if (raw === undefined || raw === null) return null;
+  if (!Number.isInteger(raw)) return 'workspaceId must be a workspace id or null';
+  if (!isWorkspaceMember(userId, raw as number)) return 'You are not a member of that workspace';
+  return raw as number;
+}
+
+/** Validates TCO inputs from the client; returns an error message when they are unusable. */
+function parseTcoInputs(raw: any): TcoInputs | string {
+  if (!raw || typeof raw !== 'object') return 'TCO inputs are required';
+  const { zip = '', annualMiles, apr, termMonths, downPayment } = raw;
+  if (typeof zip !== 'string' || (zip !== '' && !/^\d{5}$/.test(zip))) return 'ZIP must be 5 digits';
+  if (typeof annualMiles !== 'number' || annualMiles < 0 || annualMiles > 100000) return 'Annual miles must be between 0 and 100,000';
+  if (typeof apr !== 'number' || apr < 0 || apr > 40) return 'APR must be between 0 and 40%';
+  if (!Number.isInteger(termMonths) || termMonths < 0 || termMonths > 96) return 'Loan term must be 0-96 months';
+  if (typeof downPayment !== 'number' || downPayment < 0) return 'Down payment cannot be negative';
+  return { zip, annualMiles, apr, termMonths, downPayment };
+}
+
+/** Validates user tags; returns them normalized, or an error message. */
+function parseTags(raw: unknown): string[] | string {
+  if (!Array.isArray(raw) || raw.some(tag => typeof tag !== 'string')) return 'tags must be a list of strings';
+  const tags = normalizeTags(raw);
+  if (tags.length > MAX_TAGS) return `A deal can have at most ${MAX_TAGS} tags`;
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+  return tags;
+}
+
+// Results are always recomputed here so a stored estimate matches its inputs.
+function estimateTco(data: CarAnalysis, inputs: TcoInputs): TcoEstimate {
+  return { inputs, result: calculateTco(data, inputs), calculatedAt: new Date().toISOString() };
+}
+
+function loadDealRow(id: number): DealRow {
+  return db.prepare(`${DEAL_SELECT} WHERE deals.id = ?`).get(id) as DealRow;
+}
+
+/**
+ * Swaps in a new analysis of the same car, keeping the owner's TCO inputs
+ * (re-estimated against the new price) and recording it as the newest version.
+ */
+function replaceDealAnalysis(deal: OwnDeal, data: any, url: string) {
+  const previous = JSON.parse(deal.data);
+  if (!data.tco && previous.tco) data.tco = estimateTco(data, previous.tco.inputs);
+  db.prepare('UPDATE deals SET url = ?, data = ? WHERE id = ?').run(url, JSON.stringify(data), deal.id);
+  recordVersion(deal.id, data);
+}
+
+/**
+ * The user's deal in the same list (personal or workspace) for the same
+ * listing, matched by canonical URL or by VIN, so saving a car twice
+ * updates the first copy instead of adding a second.
+ */
+function findDuplicateDeal(userId: number, workspaceId: number | null, url: string, vin: unknown): number | undefined {
+  const urlKey = canonicalListingUrl(url);
+  const candidates = db
+    .prepare(`SELECT id, url, json_extract(data, '$.vin') AS vin FROM deals
+      WHERE user_id = ? AND workspace_id IS ? ORDER BY id`)
+    .all(userId, workspaceId) as { id: number; url: string; vin: string | null }[];
+  const match = candidates.find(candidate =>
+    (urlKey && canonicalListingUrl(candidate.url) === urlKey) ||
+    (typeof vin === 'string' && vin && candidate.vin === vin)
+  );
+  return match?.id;
+}
+
+// The user's personal list, or with ?workspace=<id> every member's deals in that workspace.
+router.get('/', (req, res) => {
+  const userId = req.user!.id;
+  let rows: DealRow[];
+  if (req.query.workspace !== undefined) {
+    const workspaceId = Number(req.query.workspace);
+    if (!Number.isInteger(workspaceId) || !isWorkspaceMember(userId, workspaceId)) {
+      return res.status(404).json({ error: 'Workspace not found' });
+    }
+    rows = db
+      .prepare(`${DEAL_SELECT} WHERE deals.workspace_id = ? ORDER BY deals.created_at DESC, deals.id DESC`)
+      .all(workspaceId) as DealRow[];
+  } else {
+    rows = db
+      .prepare(`${DEAL_SELECT} WHERE deals.user_id = ? AND deals.workspace_id IS NULL ORDER BY deals.created_at DESC, deals.id DESC`)
+      .all(userId) as DealRow[];
+  }
+
+  const ids = rows.map(row => row.id);
+  const histories = getPriceHistories(ids);
+  const feedback = getDealFeedback(ids, userId);
+  res.json(rows.map(row => toDeal(row, userId, { priceHistory: histories.get(row.id), ...feedback.get(row.id) })));
+});
+
+router.post('/', (req, res) => {
+  const { url, _id, createdAt, watched, priceHistory, workspaceId: rawWorkspaceId, savedBy, isOwn, votes, commentCount, cache, notes, tags, status, versionCount, ...data } = req.body ?? {};
+  // Deals analyzed from pasted text or screenshots may not have a listing URL.
+  const fromUpload = data.source?.kind === 'text' || data.source?.kind === 'images';
+  if (typeof url !== 'string' || (!url && !fromUpload)) {
+    return res.status(400).json({ error: 'Deal URL is required' });
+  }
+  if (url && !isHttpUrl(url)) {
+    return res.status(400).json({ error: 'The listing URL is not a valid http(s) link' });
+  }
+  if (typeof data.make !== 'string' || typeof data.model !== 'string') {
+    return res.status(400).json({ error: 'Deal must include make and model' });
+  }
+  const workspaceId = parseWorkspaceId(rawWorkspaceId, req.user!.id);
+  if (typeof workspaceId === 'string') {
+    return res.status(400).json({ error: workspaceId });
+  }
+  if (data.tco) {
+    const inputs = parseTcoInputs(data.tco.inputs);
+    if (typeof inputs === 'string') return res.status(400).json({ error: inputs });
+    data.tco = estimateTco(data, inputs);
+  }
+
+  const existingId = findDuplicateDeal(req.user!.id, workspaceId, url, data.vin);
+  if (existingId !== undefined) {
+    // Same car saved again: a new version of the first copy, which keeps its notes, tags, status and watch state
+    const existing = findOwnDeal(req.user!.id, existingId)!;
+    replaceDealAnalysis(existing, data, url || existing.url);
+    return res.json(dealWithExtras(loadDealRow(existingId), req.user!.id));
+  }
+
+  const result = db
+    .prepare('INSERT INTO deals (user_id, url, data, workspace_id) VALUES (?, ?, ?, ?)')
+    .run(req.user!.id, url, JSON.stringify(data), workspaceId);
+  recordVersion(Number(result.lastInsertRowid), data);
+
+  res.status(201).json(toDeal(loadDealRow(Number(result.lastInsertRowid)), req.user!.id));
+});
+
+router.patch('/:id', (req, res) => {
+  const deal = findOwnDeal(req.user!.id, req.params.id);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+
+  const { watched, tcoInputs } = req.body ?? {};
+  // Validate everything before writing anything
+  const tco = tcoInputs === undefined || tcoInputs === null ? tcoInputs : parseTcoInputs(tcoInputs);
+  if (typeof tco === 'string') {
+    return res.status(400).json({ error: tco });
+  }
+  const workspaceId = req.body?.workspaceId === undefined ? undefined : parseWorkspaceId(req.body.workspaceId, req.user!.id);
+  if (typeof workspaceId === 'string') {
+    return res.status(400).json({ error: workspaceId });
+  }
+  const { notes, status } = req.body ?? {};
+  if (notes !== undefined && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    return res.status(400).json({ error: `notes must be text of at most ${MAX_NOTES_LENGTH} characters` });
+  }
+  if (status !== undefined && !DEAL_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of ${DEAL_STATUSES.join(', ')}` });
+  }
+  const tags = req.body?.tags === undefined ? undefined : parseTags(req.body.tags);
+  if (typeof tags === 'string') {
+    return res.status(400).json({ error: tags });
+  }
+  if (watched !== undefined) {
+    if (typeof watched !== 'boolean') {
+      return res.status(400).json({ error: 'watched must be a boolean' });
+    }
+    if (watched && !deal.url) {
+      return res.status(400).json({ error: 'Only deals with a listing URL can be watched' });
+    }
+    db.prepare('UPDATE deals SET watched = ? WHERE id = ?').run(watched ? 1 : 0, deal.id);
+    if (watched) startWatching(deal.id);
+  }
+
+  if (tco !== undefined) {
+    const data = JSON.parse(deal.data);
+    if (tco === null) delete data.tco;
+    else data.tco = estimateTco(data, tco);
+    db.prepare('UPDATE deals SET data = ? WHERE id = ?').run(JSON.stringify(data), deal.id);
+  }
+
+  if (workspaceId !== undefined) {
+    db.prepare('UPDATE deals SET workspace_id = ? WHERE id = ?').run(workspaceId, deal.id);
+  }
+
+  if (notes !== undefined) {
+    db.prepare('UPDATE deals SET notes = ? WHERE id = ?').run(notes, deal.id);
+  }
+  if (tags !== undefined) {
+    db.prepare('UPDATE deals SET tags = ? WHERE id = ?').run(JSON.stringify(tags), deal.id);
+  }
+  if (status !== undefined) {
+    db.prepare('UPDATE deals SET status = ? WHERE id = ?').run(status, deal.id);
+  }
+
+  res.json(dealWithExtras(loadDealRow(deal.id), req.user!.id));
+});
+
+// Every analysis of a deal the user can see, oldest first, for the version diff.
+router.get('/:id/versions', (req, res) => {
+  const deal = findVisibleDeal(req.user!.id, req.params.id);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  res.json(getVersions(deal.id));
+});
+
+/**
+ * Runs a fresh analysis of the deal's listing (never from the cache) and
+ * makes it the deal's newest version. Uses quota like any other analysis.
+ */
+router.post('/:id/reanalyze', async (req, res) => {
+  const userId = req.user!.id;
+  const deal = findOwnDeal(userId, req.params.id);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  if (!isHttpUrl(deal.url)) {
+    return res.status(400).json({ error: 'Only deals with an http(s) listing URL can be re-analyzed' });
+  }
+  if (!getLLMProvider().isAvailable()) {
+    return res.status(503).json({ error: 'Analysis service is not configured' });
+  }
+  if (!consumeQuota(userId)) {
+    return sendAnalysisError(res, quotaExceeded(userId), 'Failed to re-analyze this listing. Please try again.');
+  }
+
+  const startedAt = Date.now();
+  try {
+    const { cache, ...analysis } = storeAnalysis(deal.url, await analyzeCarListing({ kind: 'url', url: deal.url }));
+    replaceDealAnalysis(deal, analysis, deal.url);
+    console.log(`[deals] user=${userId} deal=${deal.id} re-analyzed in ${Date.now() - startedAt}ms`);
+    res.json(dealWithExtras(loadDealRow(deal.id), userId));
+  } catch (err) {
+    console.error(`[deals] user=${userId} deal=${deal.id} re-analysis failed:`, err);
+    sendAnalysisError(res, err, 'Failed to re-analyze this listing. Please try again.');
+  }
+});
+
+// Snapshots, comments, votes, shares and coach history go with it (ON DELETE CASCADE).
+router.delete('/:id', (req, res) => {
+  const deal = findOwnDeal(req.user!.id, req.params.id);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  db.prepare('DELETE FROM deals WHERE id = ?').run(deal.id);
+  res.status(204).end();
+});
+
+// Thumbs up (1), thumbs down (-1) or clear (0) the user's vote on a deal they can see.
+router.put('/:id/vote', (req, res) => {
+  const deal = findVisibleDeal(req.user!.id, req.params.id);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const { value } = req.body ?? {};
+  if (value !== 1 && value !== -1 && value !== 0) {
+    return res.status(400).json({ error: 'value must be 1, -1 or 0' });
+  }
+
+  if (value === 0) {
+    db.prepare('DELETE FROM deal_votes WHERE deal_id = ? AND user_id = ?').run(deal.id, req.user!.id);
+  } else {
+    db.prepare(`INSERT INTO deal_votes (deal_id, user_id, value) VALUES (?, ?, ?)
+      ON CONFLICT (deal_id, user_id) DO UPDATE SET value = excluded.value`).run(deal.id, req.user!.id, value);
+  }
+  res.json(getDealFeedback([deal.id], req.user!.id).get(deal.id)!.votes);
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import { getLLMProvider } from '../llm';
+import { consumeQuota, quotaExceeded } from '../quota';
+import { upgradeStoredAnalysis } from '../services/analysisSchema';
+import { coachNegotiation } from '../services/negotiationService';
+import { findOwnDeal } from '../services/workspaces';
+import { sendAnalysisError } from './analysisErrors';
+import type { NegotiationMessage } from '../../src/types';
+
+// Mounted at /api/deals/:dealId/negotiation; the transcript lives with the deal.
+const router = Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+type DealParams = { dealId: string };
+
+interface MessageRow {
+  id: number;
+  role: NegotiationMessage['role'];
+  text: string;
+  created_at: string;
+}
+
+function toMessage(row: MessageRow): NegotiationMessage {
+  return { id: row.id, role: row.role, text: row.text, createdAt: row.created_at };
+}
+
+function transcript(dealId: number): MessageRow[] {
+  return db
+    .prepare('SELECT id, role, text, created_at FROM negotiation_messages WHERE deal_id = ? ORDER BY id')
+    .all(dealId) as MessageRow[];
+}
+
+router.get<DealParams>('/', (req, res) => {
+  const deal = findOwnDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  res.json(transcript(deal.id).map(toMessage));
+});
+
+// Sends the user's message to the coach; both are stored only once the coach has replied.
+router.post<DealParams>('/', async (req, res) => {
+  const deal = findOwnDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+  if (!text) {
+    return res.status(400).json({ error: 'Message text is required' });
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return res.status(400).json({ error: `Messages are limited to ${MAX_MESSAGE_LENGTH.toLocaleString()} characters` });
+  }
+  if (!getLLMProvider().isAvailable()) {
+    return res.status(503).json({ error: 'Analysis service is not configured' });
+  }
+  if (!consumeQuota(req.user!.id)) {
+    return sendAnalysisError(res, quotaExceeded(req.user!.id), 'The coach could not reply. Please try again.');
+  }
+
+  const history = [...transcript(deal.id).map(({ role, text }) => ({ role, text })), { role: 'user' as const, text }];
+  try {
+    const reply = await coachNegotiation(upgradeStoredAnalysis(JSON.parse(deal.data)), history, `negotiation:${deal.url || `deal-${deal.id}`}`);
+    const insert = db.prepare('INSERT INTO negotiation_messages (deal_id, role, text) VALUES (?, ?, ?)');
+    const ids = db.transaction(() => [
+      insert.run(deal.id, 'user', text).lastInsertRowid,
+      insert.run(deal.id, 'coach', reply).lastInsertRowid,
+    ])();
+    const rows = db
+      .prepare(`SELECT id, role, text, created_at FROM negotiation_messages WHERE id IN (?, ?) ORDER BY id`)
+      .all(...ids) as MessageRow[];
+    res.status(201).json(rows.map(toMessage));
+  } catch (err: any) {
+    console.error(`[negotiation] user=${req.user!.id} deal=${deal.id} failed:`, err);
+    sendAnalysisError(res, err, 'The coach could not reply. Please try again.');
+  }
+});
+
+router.delete<DealParams>('/', (req, res) => {
+  const deal = findOwnDeal(req.user!.id, req.params.dealId);
+  if (!deal) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  db.prepare('DELETE FROM negotiation_messages WHERE deal_id = ?').run(deal.id);
+  res.status(204).end();
+});
+
+export default router;
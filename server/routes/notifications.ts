@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import type { WatchNotification } from '../../src/types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+interface NotificationRow {
+  id: number;
+  deal_id: number | null;
+  kind: WatchNotification['kind'];
+  message: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+function toNotification(row: NotificationRow): WatchNotification {
+  return {
+    id: row.id,
+    dealId: row.deal_id === null ? null : String(row.deal_id),
+    kind: row.kind,
+    message: row.message,
+    createdAt: row.created_at,
+    readAt: row.read_at,
+  };
+}
+
+router.get('/', (req, res) => {
+  const rows = db
+    .prepare(`SELECT id, deal_id, kind, message, created_at, read_at FROM notifications
+      WHERE user_id = ? ORDER BY read_at IS NOT NULL, created_at DESC, id DESC LIMIT 50`)
+    .all(req.user!.id) as NotificationRow[];
+  res.json(rows.map(toNotification));
+});
+
+// Marks the given notification ids as read, or all of them when no ids are sent.
+router.post('/read', (req, res) => {
+  const rawIds = req.body?.ids;
+  const ids = Array.isArray(rawIds) ? rawIds.map(Number).filter(Number.isInteger) : null;
+  // Sending ids that are all unusable must not fall through to "mark all read"
+  if (rawIds !== undefined && (!ids || ids.length === 0)) {
+    return res.status(400).json({ error: 'ids must be a list of notification ids' });
+  }
+  if (ids) {
+    db.prepare(`UPDATE notifications SET read_at = datetime('now')
+      WHERE user_id = ? AND read_at IS NULL AND id IN (${ids.map(() => '?').join(',')})`)
+      .run(req.user!.id, ...ids);
+  } else {
+    db.prepare("UPDATE notifications SET read_at = datetime('now') WHERE user_id = ? AND read_at IS NULL")
+      .run(req.user!.id);
+  }
+  res.status(204).end();
+});
+
+export default router;
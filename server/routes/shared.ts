@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import db from '../db';
+import { upgradeStoredAnalysis } from '../services/analysisSchema';
+import type { ShareRow } from './shares';
+import type { SharedDeal } from '../../src/types';
+
+// Public, read-only view of a shared deal. No login: the token is the credential.
+const router = Router();
+
+router.get('/:token', (req, res) => {
+  const share = db
+    .prepare(`SELECT deal_shares.*, deals.url, deals.data,
+        expires_at IS NOT NULL AND expires_at <= datetime('now') AS expired
+      FROM deal_shares JOIN deals ON deals.id = deal_shares.deal_id
+      WHERE token = ?`)
+    .get(req.params.token) as (ShareRow & { url: string; data: string; expired: number }) | undefined;
+  if (!share) {
+    return res.status(404).json({ error: 'This share link does not exist' });
+  }
+  if (share.revoked_at || share.expired) {
+    return res.status(410).json({ error: share.revoked_at ? 'The owner has revoked this share link' : 'This share link has expired' });
+  }
+
+  // Only the analysis travels; the owner's watch state, notes and chat stay private,
+  // as do their TCO inputs (ZIP, APR, loan terms) and any listing text they pasted.
+  const { financing, negotiationPitch, tco, source, ...analysis } = upgradeStoredAnalysis(JSON.parse(share.data));
+  const deal: SharedDeal = {
+    ...analysis,
+    ...(source ? { source: { kind: source.kind, url: source.url, imageCount: source.imageCount } } : {}),
+    negotiationPitch: share.hide_pitch ? '' : negotiationPitch,
+    ...(financing && !share.hide_pitch ? { financing } : {}),
+    url: share.url,
+    hidePitch: Boolean(share.hide_pitch),
+    expiresAt: share.expires_at,
+  };
+  res.json(deal);
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import { findOwnDeal } from '../services/workspaces';
+import type { DealShare } from '../../src/types';
+
+// Mounted at /api/deals/:dealId/shares; the owner creates, lists and revokes links here.
+const router = Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+const MAX_EXPIRY_DAYS = 365;
+
+type DealParams = { dealId: string };
+
+export interface ShareRow {
+  id: number;
+  deal_id: number;
+  token: string;
+  hide_pitch: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+function toShare(row: ShareRow): DealShare {
+  return {
+    id: row.id,
+    token: row.token,
+    hidePitch: Boolean(row.hide_pitch),
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+/** Validates the link options; returns an error message when they are unusable. */
+function parseShareOptions(raw: any): { hidePitch: boolean; expiresInDays: number | null } | string {
+  const { hidePitch = false, expiresInDays = null } = raw ?? {};
+  if (typeof hidePitch !== 'boolean') return 'hidePitch must be a boolean';
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    return `expiresInDays must be a whole number of days between 1 and ${MAX_EXPIRY_DAYS}, or null for no expiry`;
+  }
+  return { hidePitch, expiresInDays };
+}
+
+// Active links only; revoked and expired ones stay in the table so their URLs answer "gone".
+router.get<DealParams>('/', (req, res) => {
+  if (!findOwnDeal(req.user!.id, req.params.dealId)) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const rows = db
+    .prepare(`SELECT * FROM deal_shares
+      WHERE deal_id = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > datetime('now'))
+      ORDER BY id DESC`)
+    .all(Number(req.params.dealId)) as ShareRow[];
+  res.json(rows.map(toShare));
+});
+
+router.post<DealParams>('/', (req, res) => {
+  if (!findOwnDeal(req.user!.id, req.params.dealId)) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const options = parseShareOptions(req.body);
+  if (typeof options === 'string') {
+    return res.status(400).json({ error: options });
+  }
+
+  const token = crypto.randomBytes(24).toString('base64url');
+  const result = db
+    .prepare(`INSERT INTO deal_shares (deal_id, token, hide_pitch, expires_at)
+      VALUES (?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' days') END)`)
+    .run(Number(req.params.dealId), token, options.hidePitch ? 1 : 0, options.expiresInDays, options.expiresInDays);
+
+  const row = db.prepare('SELECT * FROM deal_shares WHERE id = ?').get(result.lastInsertRowid) as ShareRow;
+  res.status(201).json(toShare(row));
+});
+
+router.delete<DealParams & { shareId: string }>('/:shareId', (req, res) => {
+  if (!findOwnDeal(req.user!.id, req.params.dealId)) {
+    return res.status(404).json({ error: 'Deal not found' });
+  }
+  const result = db
+    .prepare(`UPDATE deal_shares SET revoked_at = datetime('now') WHERE id = ? AND deal_id = ? AND revoked_at IS NULL`)
+    .run(Number(req.params.shareId), Number(req.params.dealId));
+  if (result.changes === 0) {
+    return res.status(404).json({ error: 'Share link not found' });
+  }
+  res.status(204).end();
+});
+
+export default router;
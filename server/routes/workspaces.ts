@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import db from '../db';
+import { requireAuth } from '../auth';
+import { getWorkspaceRole, isWorkspaceMember, removeWorkspaceMember } from '../services/workspaces';
+import { isValidEmail } from '../validation';
+import type { Workspace, WorkspaceInvite, WorkspaceMember } from '../../src/types';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const MAX_NAME_LENGTH = 80;
+
+interface InviteRow {
+  id: number;
+  workspace_id: number;
+  workspace_name: string;
+  email: string;
+  invited_by: string;
+  created_at: string;
+}
+
+function toInvite(row: InviteRow): WorkspaceInvite {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    workspaceName: row.workspace_name,
+    email: row.email,
+    invitedBy: row.invited_by,
+    createdAt: row.created_at,
+  };
+}
+
+const INVITE_SELECT = `SELECT workspace_invites.id, workspace_invites.workspace_id, workspaces.name AS workspace_name,
+    workspace_invites.email, users.email AS invited_by, workspace_invites.created_at
+  FROM workspace_invites
+  JOIN workspaces ON workspaces.id = workspace_invites.workspace_id
+  JOIN users ON users.id = workspace_invites.invited_by`;
+
+router.get('/', (req, res) => {
+  const rows = db
+    .prepare(`SELECT workspaces.id, workspaces.name, workspace_members.role,
+        (SELECT COUNT(*) FROM workspace_members AS m WHERE m.workspace_id = workspaces.id) AS member_count
+      FROM workspaces JOIN workspace_members ON workspace_members.workspace_id = workspaces.id
+      WHERE workspace_members.user_id = ? ORDER BY workspaces.name COLLATE NOCASE`)
+    .all(req.user!.id) as { id: number; name: string; role: Workspace['role']; member_count: number }[];
+  res.json(rows.map((row): Workspace => ({ id: row.id, name: row.name, role: row.role, memberCount: row.member_count })));
+});
+
+router.post('/', (req, res) => {
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return res.status(400).json({ error: `Workspace name must be 1-${MAX_NAME_LENGTH} characters` });
+  }
+
+  const id = db.transaction(() => {
+    const workspaceId = Number(db.prepare('INSERT INTO workspaces (name, created_by) VALUES (?, ?)').run(name, req.user!.id).lastInsertRowid);
+    db.prepare(`INSERT INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, 'owner')`).run(workspaceId, req.user!.id);
+    return workspaceId;
+  })();
+  const workspace: Workspace = { id, name, role: 'owner', memberCount: 1 };
+  res.status(201).json(workspace);
+});
+
+// Invites waiting for the signed-in user, matched on their account email.
+router.get('/invites', (req, res) => {
+  const rows = db
+    .prepare(`${INVITE_SELECT} WHERE workspace_invites.email = ? ORDER BY workspace_invites.id DESC`)
+    .all(req.user!.email.toLowerCase()) as InviteRow[];
+  res.json(rows.map(toInvite));
+});
+
+router.post('/invites/:inviteId/accept', (req, res) => {
+  const invite = db
+    .prepare('SELECT id, workspace_id FROM workspace_invites WHERE id = ? AND email = ?')
+    .get(Number(req.params.inviteId), req.user!.email.toLowerCase()) as { id: number; workspace_id: number } | undefined;
+  if (!invite) {
+    return res.status(404).json({ error: 'Invite not found' });
+  }
+  db.transaction(() => {
+    db.prepare('INSERT OR IGNORE INTO workspace_members (workspace_id, user_id) VALUES (?, ?)').run(invite.workspace_id, req.user!.id);
+    db.prepare('DELETE FROM workspace_invites WHERE id = ?').run(invite.id);
+  })();
+  res.status(204).end();
+});
+
+router.delete('/invites/:inviteId', (req, res) => {
+  const result = db
+    .prepare('DELETE FROM workspace_invites WHERE id = ? AND email = ?')
+    .run(Number(req.params.inviteId), req.user!.email.toLowerCase());
+  if (result.changes === 0) {
+    return res.status(404).json({ error: 'Invite not found' });
+  }
+  res.status(204).end();
+});
+
+router.get('/:id/members', (req, res) => {
+  const workspaceId = Number(req.params.id);
+  if (!isWorkspaceMember(req.user!.id, workspaceId)) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  const members = db
+    .prepare(`SELECT users.id AS user_id, users.email, workspace_members.role, workspace_members.joined_at
+      FROM workspace_members JOIN users ON users.id = workspace_members.user_id
+      WHERE workspace_members.workspace_id = ? ORDER BY workspace_members.joined_at, users.id`)
+    .all(workspaceId) as { user_id: number; email: string; role: Workspace['role']; joined_at: string }[];
+  const invites = db
+    .prepare(`${INVITE_SELECT} WHERE workspace_invites.workspace_id = ? ORDER BY workspace_invites.id`)
+    .all(workspaceId) as InviteRow[];
+
+  res.json({
+    members: members.map((row): WorkspaceMember => ({ userId: row.user_id, email: row.email, role: row.role, joinedAt: row.joined_at })),
+    invites: invites.map(toInvite),
+  });
+});
+
+// Any member can invite. The invitee sees it once they sign in (or sign up) with that email.
+router.post('/:id/invites', (req, res) => {
+  const workspaceId = Number(req.params.id);
+  if (!isWorkspaceMember(req.user!.id, workspaceId)) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  if (!isValidEmail(email)) {
+    return res.status(400).json({ error: 'A valid email is required' });
+  }
+  const alreadyMember = db
+    .prepare(`SELECT 1 FROM workspace_members JOIN users ON users.id = workspace_members.user_id
+      WHERE workspace_members.workspace_id = ? AND users.email = ?`)
+    .get(workspaceId, email);
+  if (alreadyMember) {
+    return res.status(409).json({ error: `${email} is already a member` });
+  }
+
+  db.prepare('INSERT OR IGNORE INTO workspace_invites (workspace_id, email, invited_by) VALUES (?, ?, ?)')
+    .run(workspaceId, email, req.user!.id);
+  const row = db
+    .prepare(`${INVITE_SELECT} WHERE workspace_invites.workspace_id = ? AND workspace_invites.email = ?`)
+    .get(workspaceId, email) as InviteRow;
+  res.status(201).json(toInvite(row));
+});
+
+// Leaving takes the deals you saved there back to your personal list. The
+// owner stays, so a workspace always has someone who can manage it.
+router.delete('/:id/members/me', (req, res) => {
+  const workspaceId = Number(req.params.id);
+  const role = getWorkspaceRole(req.user!.id, workspaceId);
+  if (!role) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  if (role === 'owner') {
+    return res.status(409).json({ error: 'The owner cannot leave the workspace' });
+  }
+  removeWorkspaceMember(workspaceId, req.user!.id);
+  res.status(204).end();
+});
+
+// Owner only. The removed member's deals go back to their personal list, as if they had left.
+router.delete('/:id/members/:userId', (req, res) => {
+  const workspaceId = Number(req.params.id);
+  const role = getWorkspaceRole(req.user!.id, workspaceId);
+  if (!role) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  if (role !== 'owner') {
+    return res.status(403).json({ error: 'Only the workspace owner can remove members' });
+  }
+  const userId = Number(req.params.userId);
+  if (userId === req.user!.id) {
+    return res.status(409).json({ error: 'The owner cannot leave the workspace' });
+  }
+  if (!removeWorkspaceMember(workspaceId, userId)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+  res.status(204).end();
+});
+
+// Owner only: withdraws an invite that has not been answered yet.
+router.delete('/:id/invites/:inviteId', (req, res) => {
+  const workspaceId = Number(req.params.id);
+  const role = getWorkspaceRole(req.user!.id, workspaceId);
+  if (!role) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  if (role !== 'owner') {
+    return res.status(403).json({ error: 'Only the workspace owner can revoke invites' });
+  }
+  const result = db
+    .prepare('DELETE FROM workspace_invites WHERE id = ? AND workspace_id = ?')
+    .run(Number(req.params.inviteId), workspaceId);
+  if (result.changes === 0) {
+    return res.status(404).json({ error: 'Invite not found' });
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,47 @@
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Visible text of an HTML fragment, with scripts and styles dropped and whitespace collapsed. */
+export function textContent(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|dt|dd|tr|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  ).replace(/[ \t\f\v]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+}
+
+/** Attribute map of every tag with the given name, e.g. all `<meta>` tags. */
+export function findTags(html: string, tag: string): Record<string, string>[] {
+  const tags: Record<string, string>[] = [];
+  for (const match of html.matchAll(new RegExp(`<${tag}\\b([^>]*)>`, 'gi'))) {
+    const attributes: Record<string, string> = {};
+    for (const attr of match[1].matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes[attr[1].toLowerCase()] = decodeEntities(attr[3] ?? attr[4] ?? attr[5] ?? '');
+    }
+    tags.push(attributes);
+  }
+  return tags;
+}
+
+/** Inner HTML of every element whose opening tag matches `openTag`. Does not handle nesting of the same tag. */
+export function findElements(html: string, openTag: RegExp, tag: string): string[] {
+  const pattern = new RegExp(`${openTag.source}([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...html.matchAll(pattern)].map(match => match[match.length - 1]);
+}
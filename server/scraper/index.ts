@@ -0,0 +1,119 @@
+import { checkVin } from '../../src/lib/vin';
+import { isAbortError, ListingUnreachableError } from '../errors';
+import { jsonLdExtractor } from './jsonLd';
+import { openGraphExtractor } from './openGraph';
+import { fetchPublicUrl } from './publicFetch';
+import { siteExtractors } from './sites';
+import { extractLabelledFacts, labelledTextExtractor } from './text';
+import type { Extractor, ListingFacts, ScrapedListing } from './types';
+
+export type { ListingFacts, ScrapedListing } from './types';
+export { BlockedUrlError, fetchPublicUrl } from './publicFetch';
+
+const MAX_PAGE_BYTES = 2_000_000;
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Most specific first: a field found by an earlier extractor is never overwritten by a later one
+const GENERIC_EXTRACTORS: Extractor[] = [jsonLdExtractor, openGraphExtractor, labelledTextExtractor];
+
+const TEXT_FIELDS = ['title', 'make', 'model', 'location', 'condition', 'vin', 'description'] as const satisfies readonly (keyof ListingFacts)[];
+const NUMBER_FIELDS = ['year', 'price', 'mileage'] as const satisfies readonly (keyof ListingFacts)[];
+
+/** Drops values that are present but cannot be right, so a bad parse never becomes "ground truth". */
+function sanitize(facts: ListingFacts): ListingFacts {
+  const clean: ListingFacts = {};
+  const maxYear = new Date().getFullYear() + 2;
+  for (const key of TEXT_FIELDS) {
+    const value = facts[key];
+    if (typeof value === 'string' && value.trim()) clean[key] = value.trim().slice(0, key === 'description' ? 4000 : 200);
+  }
+  for (const key of NUMBER_FIELDS) {
+    const value = facts[key];
+    if (typeof value === 'number' && Number.isFinite(value)) clean[key] = value;
+  }
+  if (clean.vin && !checkVin(clean.vin).valid) delete clean.vin;
+  if (clean.vin) clean.vin = clean.vin.toUpperCase();
+  if (clean.year !== undefined && (clean.year < 1900 || clean.year > maxYear)) delete clean.year;
+  if (clean.price !== undefined && (clean.price <= 0 || clean.price > 10_000_000)) delete clean.price;
+  if (clean.mileage !== undefined && (clean.mileage < 0 || clean.mileage > 2_000_000)) delete clean.mileage;
+  return clean;
+}
+
+/** Runs the site-specific extractor for this host (if any), then the generic ones, merging their facts. */
+export function extractListingFacts(html: string, pageUrl: string): Omit<ScrapedListing, 'url'> {
+  const url = new URL(pageUrl);
+  const extractors = [...siteExtractors.filter(e => e.matches?.(url)), ...GENERIC_EXTRACTORS];
+  const facts: ListingFacts = {};
+  const extractedBy: ScrapedListing['extractedBy'] = {};
+
+  for (const extractor of extractors) {
+    let found: ListingFacts;
+    try {
+      found = sanitize(extractor.extract(html, url));
+    } catch (err) {
+      console.warn(`[scraper] ${extractor.name} failed on ${url.hostname}:`, err);
+      continue;
+    }
+    for (const [key, value] of Object.entries(found) as [keyof ListingFacts, never][]) {
+      if (facts[key] !== undefined) continue;
+      facts[key] = value;
+      extractedBy[key] = extractor.name;
+    }
+  }
+
+  // Listing titles conventionally lead with the model year ("2019 Honda Civic EX - $17,450")
+  const titleYear = facts.title?.match(/^\s*((?:19|20)\d{2})\s/);
+  if (facts.year === undefined && titleYear) {
+    facts.year = Number(titleYear[1]);
+    extractedBy.year = 'title';
+  }
+  return { facts, extractedBy };
+}
+
+/** Labelled facts ("VIN: …", "Mileage: …") from listing text the user pasted in. */
+export function extractTextFacts(text: string): ListingFacts {
+  return sanitize(extractLabelledFacts(text));
+}
+
+async function fetchListingHtml(url: string, signal?: AbortSignal): Promise<string | null> {
+  let response: Response;
+  try {
+    response = await fetchPublicUrl(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; CarDealAnalyzer/1.0)',
+        Accept: 'text/html,application/xhtml+xml',
+      },
+    }, { service: 'Listing site', timeoutMs: FETCH_TIMEOUT_MS, retries: 1, signal });
+  } catch (err: any) {
+    if ((err?.code ?? err?.cause?.code) === 'ENOTFOUND') throw new ListingUnreachableError(url, `${new URL(url).hostname} does not exist`);
+    throw err;
+  }
+  // Gone for good; other failures (often bot blocking) still leave the model to read the URL
+  if (response.status === 404 || response.status === 410) {
+    throw new ListingUnreachableError(url, `the page returned ${response.status}, so the listing was probably removed`, response.status);
+  }
+  const type = response.headers.get('content-type') || '';
+  if (!response.ok || !/html/i.test(type)) return null;
+
+  const html = await response.text();
+  return html.length > MAX_PAGE_BYTES ? html.slice(0, MAX_PAGE_BYTES) : html;
+}
+
+/**
+ * Fetches a listing page and reads whatever facts it states outright.
+ * Returns null when the page can't be fetched or scraping is disabled, in
+ * which case the model reads the URL on its own as before. Throws
+ * ListingUnreachableError when the listing is clearly gone.
+ */
+export async function scrapeListing(url: string, signal?: AbortSignal): Promise<ScrapedListing | null> {
+  if (process.env.SCRAPE_LISTINGS === 'false') return null;
+  try {
+    const html = await fetchListingHtml(url, signal);
+    if (!html) return null;
+    return { url, ...extractListingFacts(html, url) };
+  } catch (err: any) {
+    if (err instanceof ListingUnreachableError || isAbortError(err)) throw err;
+    console.warn(`[scraper] could not fetch ${url}: ${err.message}`);
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import { toNumber } from '../services/analysisSchema';
+import { decodeEntities, findElements, textContent } from './html';
+import type { Extractor, ListingFacts } from './types';
+
+const VEHICLE_TYPES = ['Vehicle', 'Car', 'MotorizedBicycle', 'Motorcycle', 'Product'];
+const KM_TO_MILES = 0.621371;
+
+function types(node: any): string[] {
+  const type = node?.['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string');
+}
+
+/** Every object in the JSON-LD blocks, with `@graph` containers and top-level arrays flattened. */
+function nodes(html: string): any[] {
+  const found: any[] = [];
+  const visit = (value: any) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!value || typeof value !== 'object') return;
+    found.push(value);
+    if (value['@graph']) visit(value['@graph']);
+  };
+  for (const block of findElements(html, /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>/, 'script')) {
+    try {
+      visit(JSON.parse(block.trim()));
+    } catch {
+      // Sites ship broken JSON-LD often enough that one bad block shouldn't hide the rest
+    }
+  }
+  return found;
+}
+
+function name(value: any): string | undefined {
+  if (typeof value === 'string') return decodeEntities(value).trim() || undefined;
+  if (Array.isArray(value)) return name(value[0]);
+  if (value && typeof value === 'object') return name(value.name);
+  return undefined;
+}
+
+function first<T>(value: T | T[] | undefined): T | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function mileage(value: any): number | undefined {
+  const quantity = first(value);
+  if (quantity === undefined || quantity === null) return undefined;
+  const amount = toNumber(typeof quantity === 'object' ? quantity.value : quantity);
+  if (amount === undefined) return undefined;
+  const unit = typeof quantity === 'object' ? String(quantity.unitCode || quantity.unitText || '').toUpperCase() : '';
+  return unit === 'KMT' || unit === 'KM' ? Math.round(amount * KM_TO_MILES) : amount;
+}
+
+function address(value: any): string | undefined {
+  const place = first(value);
+  if (!place || typeof place !== 'object') return undefined;
+  const postal = first(place.address) ?? place;
+  if (typeof postal === 'string') return postal.trim() || undefined;
+  const parts = [postal.addressLocality, postal.addressRegion].filter((p): p is string => typeof p === 'string' && p.trim() !== '');
+  return parts.length ? parts.join(', ') : undefined;
+}
+
+function condition(value: any): string | undefined {
+  const raw = name(value);
+  if (!raw) return undefined;
+  // schema.org conditions arrive as URLs, e.g. https://schema.org/UsedCondition
+  const term = raw.split('/').pop()!.replace(/Condition$/, '');
+  return term ? term.replace(/([a-z])([A-Z])/g, '$1 $2') : undefined;
+}
+
+function year(value: any): number | undefined {
+  const match = String(first(value) ?? '').match(/\b(19|20)\d{2}\b/);
+  return match ? Number(match[0]) : undefined;
+}
+
+/** schema.org `Vehicle`/`Car`/`Product` with nested `Offer`, as published by most dealer sites and marketplaces. */
+export const jsonLdExtractor: Extractor = {
+  name: 'json-ld',
+  extract(html) {
+    const all = nodes(html);
+    const vehicle = all.find(n => types(n).some(t => VEHICLE_TYPES.includes(t)) && (n.vehicleIdentificationNumber || n.mileageFromOdometer || n.model || n.offers))
+      ?? all.find(n => types(n).some(t => VEHICLE_TYPES.includes(t)));
+    const offer = first(vehicle?.offers) ?? all.find(n => types(n).includes('Offer'));
+    if (!vehicle && !offer) return {};
+
+    const facts: ListingFacts = {
+      title: name(vehicle?.name),
+      make: name(vehicle?.brand) ?? name(vehicle?.manufacturer),
+      model: name(vehicle?.model),
+      year: year(vehicle?.vehicleModelDate ?? vehicle?.modelDate ?? vehicle?.productionDate),
+      mileage: mileage(vehicle?.mileageFromOdometer),
+      vin: name(vehicle?.vehicleIdentificationNumber),
+      condition: condition(vehicle?.itemCondition ?? offer?.itemCondition),
+      description: typeof vehicle?.description === 'string' ? textContent(vehicle.description) : undefined,
+    };
+    if (offer) {
+      facts.price = toNumber(offer.price ?? first(offer.priceSpecification)?.price ?? offer.lowPrice);
+      facts.location = address(offer.availableAtOrFrom) ?? address(offer.seller) ?? address(offer.offeredBy);
+    }
+    return facts;
+  },
+};
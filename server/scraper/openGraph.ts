@@ -0,0 +1,27 @@
+import { toNumber } from '../services/analysisSchema';
+import { findTags } from './html';
+import type { Extractor } from './types';
+
+/**
+ * OpenGraph and product meta tags. These rarely carry more than a title,
+ * description and price, but almost every listing page has them.
+ */
+export const openGraphExtractor: Extractor = {
+  name: 'opengraph',
+  extract(html) {
+    const meta = new Map<string, string>();
+    for (const tag of findTags(html, 'meta')) {
+      const key = (tag.property || tag.name || tag.itemprop || '').toLowerCase();
+      if (key && tag.content && !meta.has(key)) meta.set(key, tag.content.trim());
+    }
+
+    const title = meta.get('og:title') || meta.get('twitter:title');
+    const locality = [meta.get('og:locality'), meta.get('og:region')].filter(Boolean).join(', ');
+    return {
+      title,
+      description: meta.get('og:description') || meta.get('description'),
+      price: toNumber(meta.get('product:price:amount') ?? meta.get('og:price:amount') ?? meta.get('price')),
+      location: locality || meta.get('geo.placename'),
+    };
+  },
+};
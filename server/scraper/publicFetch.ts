@@ -0,0 +1,106 @@
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { isIPv4, isIPv6 } from 'node:net';
+import { Agent } from 'undici';
+import { fetchWithRetry, type RetryOptions } from '../retry';
+
+const MAX_REDIRECTS = 5;
+
+/** The URL, or a redirect it led to, points somewhere this server must not fetch on a user's behalf. */
+export class BlockedUrlError extends Error {
+  constructor(public url: string, reason: string) {
+    super(`Refusing to fetch ${url}: ${reason}`);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+}
+
+/** Loopback, private, link-local and other non-public addresses, including IPv4-mapped IPv6. */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIPv4(ip)) return isPrivateIPv4(ip);
+  if (!isIPv6(ip)) return false;
+
+  const mappedDotted = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedDotted) return isPrivateIPv4(mappedDotted[1]);
+  // URL parsing rewrites ::ffff:127.0.0.1 as ::ffff:7f00:1
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip);
+}
+
+/**
+ * Throws BlockedUrlError unless the URL is http(s) and every address its host
+ * resolves to is public. Returns those addresses so the fetch can connect to
+ * them rather than resolving the name again.
+ */
+async function resolvePublicUrl(url: URL): Promise<LookupAddress[]> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BlockedUrlError(url.href, 'only http(s) URLs can be fetched');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    throw new BlockedUrlError(url.href, 'the host is not public');
+  }
+  const addresses = isIPv4(host) || isIPv6(host)
+    ? [{ address: host, family: isIPv4(host) ? 4 : 6 }]
+    : await lookup(host, { all: true });
+  if (addresses.some(entry => isPrivateAddress(entry.address))) {
+    throw new BlockedUrlError(url.href, `${host} resolves to a private address`);
+  }
+  return addresses;
+}
+
+/**
+ * A dispatcher whose connections go only to `addresses`. Without it fetch
+ * would look the host up again, and a DNS-rebinding host could answer with a
+ * private address the second time. TLS still verifies against the hostname.
+ */
+function pinnedDispatcher(addresses: LookupAddress[]): Agent {
+  return new Agent({
+    keepAliveTimeout: 1000,
+    connect: {
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+      },
+    },
+  });
+}
+
+/**
+ * fetchWithRetry for URLs users hand us (listing pages, watched deals).
+ * Redirects are followed by hand so every hop, not just the first, has to
+ * resolve to a public address, and each hop connects only to the addresses
+ * that were checked. DNS failures surface as the lookup's error
+ * (code ENOTFOUND for a host that does not exist).
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit, options: RetryOptions): Promise<Response> {
+  let current = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    // Node's fetch takes an undici dispatcher, which the DOM RequestInit type does not know about
+    const hopInit: RequestInit & { dispatcher: Agent } = {
+      ...init,
+      redirect: 'manual',
+      dispatcher: pinnedDispatcher(await resolvePublicUrl(current)),
+    };
+    const response = await fetchWithRetry(current.href, hopInit, options);
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+  throw new BlockedUrlError(url, `more than ${MAX_REDIRECTS} redirects`);
+}
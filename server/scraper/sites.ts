@@ -0,0 +1,58 @@
+import { toNumber } from '../services/analysisSchema';
+import { findElements, findTags, textContent } from './html';
+import { extractLabelledFacts } from './text';
+import type { Extractor, ListingFacts } from './types';
+
+function onHost(url: URL, domain: string): boolean {
+  return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+}
+
+/** `<dt>label</dt><dd>value</dd>` pairs, keyed by lower-cased label. */
+function definitionList(html: string): Map<string, string> {
+  const pairs = new Map<string, string>();
+  for (const match of html.matchAll(/<dt\b[^>]*>([\s\S]*?)<\/dt>\s*<dd\b[^>]*>([\s\S]*?)<\/dd>/gi)) {
+    pairs.set(textContent(match[1]).toLowerCase(), textContent(match[2]));
+  }
+  return pairs;
+}
+
+/** Craigslist keeps car attributes in "label: value" pairs and the asking price in `.price`. */
+const craigslist: Extractor = {
+  name: 'craigslist',
+  matches: url => onHost(url, 'craigslist.org'),
+  extract(html) {
+    const attributes = findElements(html, /<div\b[^>]*class\s*=\s*["'][^"']*\battrgroup\b[^"']*["'][^>]*>/, 'div')
+      .map(textContent)
+      .join('\n');
+    const labelled = extractLabelledFacts(attributes);
+    const place = findTags(html, 'meta').find(tag => tag.name === 'geo.placename')?.content;
+
+    return {
+      title: textContent(findElements(html, /<span\b[^>]*id\s*=\s*["']titletextonly["'][^>]*>/, 'span')[0] ?? '') || undefined,
+      price: toNumber(textContent(findElements(html, /<span\b[^>]*class\s*=\s*["']price["'][^>]*>/, 'span')[0] ?? '')),
+      mileage: labelled.mileage,
+      vin: labelled.vin,
+      condition: labelled.condition,
+      location: place?.trim() || undefined,
+    };
+  },
+};
+
+/** Cars.com detail pages list the basics in a definition list next to a `.primary-price`. */
+const carsDotCom: Extractor = {
+  name: 'cars.com',
+  matches: url => onHost(url, 'cars.com'),
+  extract(html) {
+    const details = definitionList(html);
+    const facts: ListingFacts = {
+      vin: details.get('vin'),
+      mileage: toNumber(details.get('mileage')),
+      price: toNumber(textContent(findElements(html, /<span\b[^>]*class\s*=\s*["'][^"']*\bprimary-price\b[^"']*["'][^>]*>/, 'span')[0] ?? '')),
+    };
+    const condition = details.get('condition') ?? details.get('new/used');
+    if (condition) facts.condition = condition;
+    return facts;
+  },
+};
+
+export const siteExtractors: Extractor[] = [craigslist, carsDotCom];
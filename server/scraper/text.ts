@@ -0,0 +1,28 @@
+import { toNumber } from '../services/analysisSchema';
+import { textContent } from './html';
+import type { Extractor, ListingFacts } from './types';
+
+function labelled(text: string, labels: string, value: string): string | undefined {
+  const match = text.match(new RegExp(`(?:^|\\n|\\b)(?:${labels})\\s*[:#-]?\\s*(${value})`, 'i'));
+  return match?.[1];
+}
+
+/**
+ * Facts stated with an explicit label ("VIN: …", "Odometer: 84,000", "Asking $9,500").
+ * Works on visible page text and on listing text pasted by the user.
+ */
+export function extractLabelledFacts(text: string): ListingFacts {
+  return {
+    vin: labelled(text, 'VIN', '[A-HJ-NPR-Z0-9]{17}')?.toUpperCase(),
+    mileage: toNumber(labelled(text, 'odometer|mileage|miles', '\\d[\\d,.]*\\s*k?\\b')),
+    price: toNumber(labelled(text, 'asking(?: price)?|price', '\\$\\s?\\d[\\d,]*(?:\\.\\d{2})?')),
+    condition: labelled(text, 'condition', '[a-z][a-z ]{2,20}?(?=\\n|$|[,.;])')?.trim(),
+  };
+}
+
+export const labelledTextExtractor: Extractor = {
+  name: 'labelled-text',
+  extract(html) {
+    return extractLabelledFacts(textContent(html));
+  },
+};
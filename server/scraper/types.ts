@@ -0,0 +1,27 @@
+/** Listing facts read straight from the page, never guessed. */
+export interface ListingFacts {
+  title?: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  price?: number;
+  mileage?: number;
+  location?: string;
+  condition?: string;
+  vin?: string;
+  description?: string;
+}
+
+export interface Extractor {
+  readonly name: string;
+  /** Site-specific extractors only run on their own hosts; generic ones omit this. */
+  matches?(url: URL): boolean;
+  extract(html: string, url: URL): ListingFacts;
+}
+
+export interface ScrapedListing {
+  url: string;
+  facts: ListingFacts;
+  /** Which extractor supplied each fact, for logging and debugging. */
+  extractedBy: Partial<Record<keyof ListingFacts, string>>;
+}
@@ -0,0 +1,81 @@
+import db from '../db';
+import { upgradeStoredAnalysis } from './analysisSchema';
+import { diffAnalyses } from '../../src/lib/analysisDiff';
+import { canonicalListingUrl } from '../../src/lib/urls';
+import type { AnalysisCacheInfo, CarAnalysis } from '../../src/types';
+
+// 0 turns cached answers off; analyses are still recorded so re-runs can show what changed
+export const CACHE_TTL_HOURS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS ?? 24);
+// Old runs are only kept around for diffs
+const RETENTION_DAYS = 30;
+
+interface CacheRow {
+  id: number;
+  url_key: string | null;
+  vin: string | null;
+  data: string;
+  analyzed_at: string;
+}
+
+interface CacheKeys {
+  url?: string;
+  vin?: string;
+}
+
+function toKeys({ url, vin }: CacheKeys): { urlKey: string | null; vin: string | null } {
+  return {
+    urlKey: url ? canonicalListingUrl(url) : null,
+    vin: vin ? vin.trim().toUpperCase() : null,
+  };
+}
+
+function parse(row: CacheRow): CarAnalysis {
+  return upgradeStoredAnalysis(JSON.parse(row.data));
+}
+
+/** The run before `row` for the same listing or the same car. */
+function findPrevious(row: Pick<CacheRow, 'id' | 'url_key' | 'vin'>): CacheRow | undefined {
+  return db
+    .prepare('SELECT * FROM analysis_cache WHERE id < ? AND (url_key = ? OR vin = ?) ORDER BY id DESC LIMIT 1')
+    .get(row.id, row.url_key, row.vin) as CacheRow | undefined;
+}
+
+function withCacheInfo(analysis: CarAnalysis, row: CacheRow, info: Pick<AnalysisCacheInfo, 'cached'>): CarAnalysis {
+  const previous = findPrevious(row);
+  return {
+    ...analysis,
+    cache: {
+      ...info,
+      analyzedAt: row.analyzed_at,
+      previousAnalyzedAt: previous?.analyzed_at,
+      changes: previous ? diffAnalyses(parse(previous), analysis) : [],
+    },
+  };
+}
+
+/** A recent enough analysis of this listing URL, tracking parameters ignored. */
+export function findCachedAnalysis(url: string): CarAnalysis | undefined {
+  if (CACHE_TTL_HOURS <= 0) return undefined;
+  const urlKey = canonicalListingUrl(url);
+  if (!urlKey) return undefined;
+  const row = db
+    .prepare(`SELECT * FROM analysis_cache WHERE url_key = ? AND analyzed_at >= datetime('now', ?) ORDER BY id DESC LIMIT 1`)
+    .get(urlKey, `-${CACHE_TTL_HOURS} hours`) as CacheRow | undefined;
+  return row ? withCacheInfo(parse(row), row, { cached: true }) : undefined;
+}
+
+/** Records a fresh analysis and returns it with what changed since the last run on this listing or VIN. */
+export function storeAnalysis(url: string | undefined, analysis: CarAnalysis): CarAnalysis {
+  const { cache, ...data } = analysis;
+  const { urlKey, vin } = toKeys({ url, vin: data.vin });
+  db.prepare(`DELETE FROM analysis_cache WHERE analyzed_at < datetime('now', ?)`).run(`-${RETENTION_DAYS} days`);
+  if (!urlKey && !vin) {
+    return { ...data, cache: { cached: false, analyzedAt: new Date().toISOString().slice(0, 19).replace('T', ' '), changes: [] } };
+  }
+
+  const result = db
+    .prepare('INSERT INTO analysis_cache (url_key, vin, data) VALUES (?, ?, ?)')
+    .run(urlKey, vin, JSON.stringify(data));
+  const row = db.prepare('SELECT * FROM analysis_cache WHERE id = ?').get(result.lastInsertRowid) as CacheRow;
+  return withCacheInfo(data, row, { cached: false });
+}
@@ -0,0 +1,242 @@
+import { normalizedRedFlagIndexes, normalizeRedFlags } from "../../src/lib/redFlags";
+import { ModelOutputInvalidError } from "../errors";
+import type { CarAnalysis, FieldOrigin, RedFlag, SourcedField, SourcePath } from "../../src/types";
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export class AnalysisValidationError extends ModelOutputInvalidError {
+  constructor(public issues: ValidationIssue[]) {
+    super(`AI response failed validation: ${issues.map(i => `${i.field} (${i.message})`).join(", ")}`, issues);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+const DEAL_RATINGS: CarAnalysis["dealRating"][] = ["Great", "Good", "Fair", "Poor", "Suspicious"];
+
+export const SOURCED_FIELDS: SourcedField[] = [
+  "make", "model", "year", "price", "mileage", "location", "condition", "vin",
+  "vinData.titleStatus", "vinData.accidentHistory", "marketComparison",
+];
+
+// What the model's own words map to; only the server's parser may claim "extracted"
+const REPORTED_ORIGINS: Record<string, FieldOrigin> = {
+  extracted: "inferred",
+  inferred: "inferred",
+  listing: "inferred",
+  search: "search",
+  estimated: "estimated",
+  estimate: "estimated",
+};
+
+// Used when the model names an origin without a confidence
+const DEFAULT_CONFIDENCE: Record<FieldOrigin, number> = {
+  extracted: 1,
+  inferred: 0.7,
+  search: 0.6,
+  estimated: 0.3,
+};
+
+/**
+ * Pulls the JSON object out of a model reply, tolerating markdown fences and
+ * chatter before or after the object.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, "").trim();
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new AnalysisValidationError([{ field: "(response)", message: "no JSON object found" }]);
+  }
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch (err: any) {
+    throw new AnalysisValidationError([{ field: "(response)", message: `invalid JSON: ${err.message}` }]);
+  }
+}
+
+/**
+ * Coerces "$12,500", "85,000 miles" or "12.5k" style values into numbers.
+ * Returns undefined when nothing numeric can be recovered.
+ */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+
+  const match = value.replace(/,/g, "").match(/-?\d+(?:\.\d+)?\s*([kK])?/);
+  if (!match) return undefined;
+  const parsed = parseFloat(match[0]);
+  return match[1] ? parsed * 1000 : parsed;
+}
+
+class Validator {
+  issues: ValidationIssue[] = [];
+
+  constructor(private raw: Record<string, any>) {}
+
+  fail(field: string, message: string) {
+    this.issues.push({ field, message });
+  }
+
+  number(field: string, value: unknown, { min, max, required = true }: { min?: number; max?: number; required?: boolean } = {}): number {
+    const parsed = toNumber(value);
+    if (parsed === undefined) {
+      if (required) this.fail(field, value === undefined || value === null ? "missing" : `not a number: ${JSON.stringify(value)}`);
+      return 0;
+    }
+    if ((min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+      this.fail(field, `${parsed} is outside ${min ?? "-∞"}–${max ?? "∞"}`);
+    }
+    return parsed;
+  }
+
+  string(field: string, { required = false, fallback = "" }: { required?: boolean; fallback?: string } = {}): string {
+    const value = this.raw[field];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number") return String(value);
+    if (required) this.fail(field, "missing");
+    return fallback;
+  }
+
+  stringList(field: string): string[] {
+    const value = this.raw[field];
+    if (value === undefined || value === null) return [];
+    if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+    if (!Array.isArray(value)) {
+      this.fail(field, "expected a list of strings");
+      return [];
+    }
+    return value.filter((item): item is string => typeof item === "string" && item.trim() !== "").map(s => s.trim());
+  }
+
+  /** Accepts `{ category, severity, message, evidence }` objects or plain strings, which are classified by keyword. */
+  redFlags(): RedFlag[] {
+    const value = this.raw.redFlags;
+    if (value !== undefined && value !== null && typeof value !== "string" && !Array.isArray(value)) {
+      this.fail("redFlags", "expected a list of red flags");
+      return [];
+    }
+    return normalizeRedFlags(value, "ai");
+  }
+
+  dealRating(): CarAnalysis["dealRating"] {
+    const value = this.raw.dealRating;
+    const match = typeof value === "string"
+      ? DEAL_RATINGS.find(r => r.toLowerCase() === value.trim().toLowerCase().replace(/\s*deal$/, ""))
+      : undefined;
+    if (!match) {
+      this.fail("dealRating", `expected one of ${DEAL_RATINGS.join(", ")}, got ${JSON.stringify(value)}`);
+      return "Fair";
+    }
+    return match;
+  }
+}
+
+function parseConfidence(value: unknown): number | undefined {
+  const parsed = toNumber(value);
+  if (parsed === undefined || parsed < 0) return undefined;
+  // Accept percentages as well as fractions
+  return Math.min(parsed > 1 ? parsed / 100 : parsed, 1);
+}
+
+/**
+ * Reads the model's own account of where each field and red flag came from.
+ * Entries may be `{ origin, confidence }` or a bare origin string; unknown
+ * paths and origins are ignored. Citations are attached later from grounding.
+ */
+function parseSources(raw: unknown, redFlagIndexes: Map<number, number>): CarAnalysis["sources"] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+
+  // The model numbers red flags as it wrote them, before empty ones were dropped
+  const paths: [string, SourcePath][] = [
+    ...SOURCED_FIELDS.map((field): [string, SourcePath] => [field, field]),
+    ...[...redFlagIndexes].map(([rawIndex, index]): [string, SourcePath] => [`redFlags.${rawIndex}`, `redFlags.${index}`]),
+  ];
+  const entries = raw as Record<string, any>;
+  const sources: NonNullable<CarAnalysis["sources"]> = {};
+  for (const [reportedPath, path] of paths) {
+    // Models often drop the "vinData." prefix
+    const entry = entries[reportedPath] ?? entries[reportedPath.replace(/^vinData\./, "")];
+    const reported = typeof entry === "string" ? entry : entry?.origin;
+    const origin = typeof reported === "string" ? REPORTED_ORIGINS[reported.trim().toLowerCase()] : undefined;
+    if (!origin) continue;
+
+    sources[path] = {
+      origin,
+      confidence: parseConfidence(entry?.confidence) ?? DEFAULT_CONFIDENCE[origin],
+      citations: [],
+    };
+  }
+  return Object.keys(sources).length ? sources : undefined;
+}
+
+/**
+ * Validates a parsed model response against the CarAnalysis shape, repairing
+ * what can be repaired (numeric strings, casing, missing optional lists) and
+ * throwing an AnalysisValidationError listing every field that cannot be.
+ */
+export function parseCarAnalysis(raw: unknown): CarAnalysis {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new AnalysisValidationError([{ field: "(response)", message: "expected a JSON object" }]);
+  }
+
+  const data = raw as Record<string, any>;
+  const v = new Validator(data);
+  const maxYear = new Date().getFullYear() + 2;
+
+  const market = data.marketComparison;
+  if (!market || typeof market !== "object") v.fail("marketComparison", "missing");
+
+  const analysis: CarAnalysis = {
+    make: v.string("make", { required: true }),
+    model: v.string("model", { required: true }),
+    year: Math.round(v.number("year", data.year, { min: 1900, max: maxYear })),
+    price: v.number("price", data.price, { min: 0 }),
+    mileage: Math.round(v.number("mileage", data.mileage, { min: 0 })),
+    location: v.string("location", { fallback: "Unknown" }),
+    condition: v.string("condition", { fallback: "Unknown" }),
+    dealRating: v.dealRating(),
+    dealScore: Math.round(v.number("dealScore", data.dealScore, { min: 0, max: 100 })),
+    summary: v.string("summary", { required: true }),
+    redFlags: v.redFlags(),
+    pros: v.stringList("pros"),
+    cons: v.stringList("cons"),
+    marketComparison: {
+      averagePrice: v.number("marketComparison.averagePrice", market?.averagePrice, { min: 0 }),
+      lowPrice: v.number("marketComparison.lowPrice", market?.lowPrice, { min: 0 }),
+      highPrice: v.number("marketComparison.highPrice", market?.highPrice, { min: 0 }),
+      similarCarsCount: Math.round(v.number("marketComparison.similarCarsCount", market?.similarCarsCount, { min: 0, required: false })),
+    },
+    negotiationPitch: v.string("negotiationPitch"),
+  };
+
+  if (typeof data.vin === "string" && data.vin.trim()) {
+    analysis.vin = data.vin.trim().toUpperCase();
+  }
+
+  if (data.vinData && typeof data.vinData === "object") {
+    const { accidentHistory, titleStatus } = data.vinData;
+    analysis.vinData = {
+      ...(typeof accidentHistory === "string" && accidentHistory.trim() ? { accidentHistory: accidentHistory.trim() } : {}),
+      ...(typeof titleStatus === "string" && titleStatus.trim() ? { titleStatus: titleStatus.trim() } : {}),
+    };
+  }
+
+  const sources = parseSources(data.sources, normalizedRedFlagIndexes(data.redFlags));
+  if (sources) analysis.sources = sources;
+
+  if (v.issues.length > 0) {
+    throw new AnalysisValidationError(v.issues);
+  }
+  return analysis;
+}
+
+/**
+ * Brings an analysis saved by an earlier version up to the current shape.
+ * Red flags used to be plain strings; they are classified on the way out.
+ */
+export function upgradeStoredAnalysis<T extends Record<string, any>>(data: T): T & CarAnalysis {
+  return { ...data, redFlags: normalizeRedFlags(data.redFlags) } as T & CarAnalysis;
+}
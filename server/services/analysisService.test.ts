@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureNotFoundError } from '../llm';
+import { FixtureProvider } from '../llm/fixture';
+import { analyzeCarListing } from './analysisService';
+import type { AnalysisProgressEvent } from '../../src/types';
+
+const LISTING_URL = 'https://example.com/listings/2019-honda-civic-ex';
+
+// Canned NHTSA answers for the fixture's VIN, so the pipeline runs offline end to end
+function nhtsaResponse(url: string): Response {
+  if (url.includes('DecodeVinValues')) {
+    return Response.json({
+      Results: [{
+        Make: 'HONDA',
+        Model: 'Civic',
+        ModelYear: '2019',
+        Manufacturer: 'HONDA OF CANADA MFG., INC.',
+        BodyClass: 'Sedan/Saloon',
+        FuelTypePrimary: 'Gasoline',
+        DisplacementL: '1.5',
+        Trim: 'EX',
+      }],
+    });
+  }
+  if (url.includes('recallsByVehicle')) {
+    return Response.json({
+      results: [{
+        NHTSACampaignNumber: '19V123000',
+        Component: 'FUEL SYSTEM, GASOLINE',
+        Summary: 'The fuel pump may fail.',
+        Consequence: 'The engine may stall.',
+        Remedy: 'Dealers will replace the fuel pump, free of charge.',
+        ReportReceivedDate: '01/02/2019',
+      }],
+    });
+  }
+  return new Response('Not found', { status: 404 });
+}
+
+describe('analyzeCarListing with the fixture provider', () => {
+  const provider = new FixtureProvider('fixtures/llm');
+
+  beforeEach(() => {
+    vi.stubEnv('SCRAPE_LISTINGS', 'false');
+    vi.stubGlobal('fetch', vi.fn(async (url: string | URL) => nhtsaResponse(String(url))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('validates the recorded answer into a CarAnalysis', async () => {
+    const analysis = await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider);
+
+    expect(analysis).toMatchObject({
+      make: 'Honda',
+      model: 'Civic EX',
+      year: 2019,
+      price: 17450,
+      mileage: 48210,
+      vin: '2HGFC2F74KH512345',
+      marketComparison: { averagePrice: 18300, lowPrice: 16200, highPrice: 20500 },
+      source: { kind: 'url', url: LISTING_URL },
+    });
+    // Plain-text flags from the model are classified by keyword
+    expect(analysis.redFlags).toEqual([
+      { category: 'documentation', severity: 'medium', message: 'No service records mentioned', source: 'ai' },
+      { category: 'other', severity: 'low', message: 'Minor scratches on rear bumper', source: 'ai' },
+    ]);
+  });
+
+  it('checks the VIN, decodes it and attaches the applicable recalls', async () => {
+    const analysis = await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider);
+
+    expect(analysis.vinData?.vinCheck).toMatchObject({ valid: true, mismatches: [], decoded: { modelYear: 2019 } });
+    expect(analysis.vinData).toMatchObject({ titleStatus: 'Clean', fuelType: 'Gasoline', trim: 'EX' });
+    expect(analysis.vinData?.recalls).toEqual([
+      expect.objectContaining({ campaignNumber: '19V123000', reportDate: '2019-02-01', remedyAvailable: true, completion: 'unknown' }),
+    ]);
+  });
+
+  it('replaces the model\'s score with the reproducible breakdown', async () => {
+    const analysis = await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider);
+    const breakdown = analysis.scoreBreakdown!;
+
+    expect(breakdown.aiScore).toBe(74);
+    expect(analysis.dealScore).toBe(breakdown.score);
+    expect(analysis.dealRating).toBe(breakdown.rating);
+    expect(breakdown.factors.map(factor => factor.key)).toEqual(['price', 'mileage', 'age', 'title', 'recalls', 'redFlags', 'ai']);
+    expect(breakdown.factors.reduce((sum, factor) => sum + factor.weight, 0)).toBeCloseTo(1);
+  });
+
+  it('keeps what the model reported about sources and adds grounding citations', async () => {
+    const analysis = await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider);
+
+    expect(analysis.sources?.condition).toEqual({ origin: 'estimated', confidence: 0.5, citations: [] });
+    expect(analysis.sources?.marketComparison).toMatchObject({
+      origin: 'search',
+      citations: [{ url: 'https://www.kbb.com/honda/civic/2019/', title: 'kbb.com' }],
+    });
+    expect(analysis.sources?.['redFlags.1']).toMatchObject({ origin: 'inferred' });
+  });
+
+  it('reports every stage in order', async () => {
+    const events: AnalysisProgressEvent[] = [];
+    await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider, { onProgress: event => events.push(event) });
+
+    const finished = events.filter(event => event.type === 'stage' && event.status !== 'running');
+    expect(finished.map(event => event.type === 'stage' && [event.stage, event.status])).toEqual([
+      ['listing', 'done'],
+      ['extraction', 'done'],
+      ['vin', 'done'],
+      ['recalls', 'done'],
+      ['scoring', 'done'],
+    ]);
+  });
+
+  it('still returns an analysis when NHTSA is unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Unavailable', { status: 404 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const events: AnalysisProgressEvent[] = [];
+    const analysis = await analyzeCarListing({ kind: 'url', url: LISTING_URL }, provider, { onProgress: event => events.push(event) });
+
+    expect(analysis.vinData?.recalls).toBeUndefined();
+    expect(events).toContainEqual(expect.objectContaining({ type: 'stage', stage: 'vin', status: 'failed' }));
+    expect(events).toContainEqual(expect.objectContaining({ type: 'stage', stage: 'recalls', status: 'skipped' }));
+  });
+
+  it('fails with FixtureNotFoundError for a listing that was never recorded', async () => {
+    await expect(analyzeCarListing({ kind: 'url', url: 'https://example.com/listings/never-recorded' }, provider))
+      .rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
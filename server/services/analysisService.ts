@@ -0,0 +1,362 @@
+import { scoreDeal } from "../../src/lib/dealScoring";
+import { applyRedFlagRules } from "../../src/lib/redFlagRules";
+import { normalizedRedFlagIndexes } from "../../src/lib/redFlags";
+import { checkVin } from "../../src/lib/vin";
+import { decodeVin, fetchRecalls, type DecodedVehicle } from "./nhtsa";
+import crypto from "crypto";
+import type {
+  AnalysisProgressEvent,
+  AnalysisSource,
+  AnalysisStage,
+  AnalysisStageStatus,
+  CarAnalysis,
+  ListingSource,
+  SourcedField,
+} from "../../src/types";
+import { generateWithRetry, getLLMProvider, type LLMMessage, type LLMProvider, type LLMResponse } from "../llm";
+import { extractTextFacts, scrapeListing, type ListingFacts } from "../scraper";
+import { AnalysisValidationError, extractJson, parseCarAnalysis } from "./analysisSchema";
+import { attributeSources } from "./provenance";
+import { isAbortError } from "../errors";
+
+function describeSource(source: ListingSource): string {
+  const from = source.url ? ` (originally posted at ${source.url})` : "";
+  switch (source.kind) {
+    case "url":
+      return `Analyze this car listing URL: ${source.url}.`;
+    case "text":
+      return `Analyze the car listing below${from}. The user pasted it from the seller's post, so treat it as the listing itself.
+    <listing>
+${source.text}
+    </listing>`;
+    case "images":
+      return `Analyze the car listing shown in the attached screenshot${source.images.length === 1 ? "" : "s"}${from}.
+    Read every visible detail (price, mileage, VIN, location, description text) and look at any photos of the car itself.`;
+  }
+}
+
+/** Identifies a source for fixture replay: the URL for links, a content hash otherwise. */
+function sourceKey(source: ListingSource): string {
+  if (source.kind === "url") return source.url;
+  const hash = crypto.createHash("sha256");
+  if (source.kind === "text") hash.update(source.text);
+  else source.images.forEach(image => hash.update(image.data));
+  return `${source.kind}:${hash.digest("hex").slice(0, 32)}`;
+}
+
+function describeAnalysisSource(source: ListingSource): AnalysisSource {
+  switch (source.kind) {
+    case "url":
+      return { kind: "url", url: source.url };
+    case "text":
+      return { kind: "text", url: source.url, text: source.text };
+    case "images":
+      return { kind: "images", url: source.url, imageCount: source.images.length };
+  }
+}
+
+// Facts that map one-to-one onto analysis fields; title and description only inform the prompt
+const FACT_FIELDS = ["make", "model", "year", "price", "mileage", "location", "condition", "vin"] as const;
+// The same fields split by type, so they can be copied without casting
+const TEXT_FACTS = ["make", "model", "location", "condition", "vin"] as const satisfies readonly FactField[];
+const NUMBER_FACTS = ["year", "price", "mileage"] as const satisfies readonly FactField[];
+
+type FactField = (typeof FACT_FIELDS)[number];
+
+/** Copies the facts the listing states onto `target`, optionally only some of them. Returns the fields copied. */
+function copyFacts(target: Partial<CarAnalysis>, facts: ListingFacts, include: (field: FactField) => boolean = () => true): FactField[] {
+  const copied: FactField[] = [];
+  for (const field of TEXT_FACTS) {
+    const value = facts[field];
+    if (value === undefined || !include(field)) continue;
+    target[field] = value;
+    copied.push(field);
+  }
+  for (const field of NUMBER_FACTS) {
+    const value = facts[field];
+    if (value === undefined || !include(field)) continue;
+    target[field] = value;
+    copied.push(field);
+  }
+  return copied;
+}
+
+/** Receives each stage as it starts and ends, and partial results as they become known. */
+export type ProgressListener = (event: AnalysisProgressEvent) => void;
+
+/** Reads what the listing states outright before the model sees it. */
+async function readListing(source: ListingSource, signal?: AbortSignal): Promise<ListingFacts> {
+  switch (source.kind) {
+    case "url": {
+      const scraped = await scrapeListing(source.url, signal);
+      if (scraped && Object.keys(scraped.facts).length) {
+        console.log(`[scraper] ${source.url}:`, JSON.stringify(scraped.extractedBy));
+      }
+      return scraped?.facts ?? {};
+    }
+    case "text":
+      return extractTextFacts(source.text);
+    case "images":
+      return {};
+  }
+}
+
+// Listing facts the UI can show before the model has answered
+const PREVIEW_FIELDS = new Set<FactField>(["make", "model", "year", "price", "mileage", "location"]);
+
+export interface ProgressOptions {
+  onProgress?: ProgressListener;
+  /** Stops the pipeline, including any call in flight, when the client goes away. */
+  signal?: AbortSignal;
+}
+
+async function gatherFacts(source: ListingSource, { onProgress = () => {}, signal }: ProgressOptions = {}): Promise<ListingFacts> {
+  if (source.kind === "images") {
+    onProgress({ type: "stage", stage: "listing", status: "skipped", detail: "Screenshots are read by the model" });
+    return {};
+  }
+  onProgress({ type: "stage", stage: "listing", status: "running" });
+  let facts: ListingFacts;
+  try {
+    facts = await readListing(source, signal);
+  } catch (err: any) {
+    onProgress({ type: "stage", stage: "listing", status: "failed", detail: err.message });
+    throw err;
+  }
+  const found = FACT_FIELDS.filter(field => facts[field] !== undefined);
+  onProgress({
+    type: "stage",
+    stage: "listing",
+    status: "done",
+    detail: found.length ? `Read ${found.join(", ")}` : "No structured details found; the model will read the listing",
+  });
+
+  const preview: Partial<CarAnalysis> = {};
+  copyFacts(preview, facts, field => PREVIEW_FIELDS.has(field));
+  if (Object.keys(preview).length) onProgress({ type: "partial", analysis: preview });
+  return facts;
+}
+
+/** The listing's own wording, for the local red flag rules. */
+function listingText(source: ListingSource, facts: ListingFacts): string {
+  if (source.kind === "text") return source.text;
+  return [facts.title, facts.description].filter(Boolean).join("\n");
+}
+
+function describeFacts(facts: ListingFacts): string {
+  const lines = [
+    facts.title && `Title: ${facts.title}`,
+    ...FACT_FIELDS.map(field => facts[field] !== undefined && `${field}: ${facts[field]}`),
+    facts.description && `Description: ${facts.description}`,
+  ].filter(Boolean);
+  if (!lines.length) return "";
+  return `
+    These facts were read directly from the listing page. Treat them as ground truth: copy them into your answer unchanged and do not contradict them.
+    <facts>
+${lines.join("\n")}
+    </facts>`;
+}
+
+function buildAnalysisPrompt(source: ListingSource, facts: ListingFacts): string {
+  return `${describeSource(source)}${describeFacts(facts)}
+    Extract the key details and provide a comprehensive deal analysis in JSON format. 
+    If you cannot find specific data, estimate based on the model and year, and mark that field "estimated" in "sources".
+    VERY IMPORTANT: Look for a VIN (Vehicle Identification Number) in the text or attributes.
+    If a VIN is found, use Google Search to check for public records, auction history (like Copart or IAAI), and any reported accidents or title issues (salvage, rebuilt, flood damage).
+    Identify any red flags in the description (e.g., title issues, mechanical warnings, suspicious wording) and rate each one:
+    "critical" for likely scams or anything that should stop the purchase, "high" for serious problems, "medium" for things to
+    verify before buying, and "low" for cosmetic or minor issues.
+    Compare the price to typical market values for this specific year, make, and model.
+    Finally, generate a "Negotiation Pitch": This MUST be a detailed, persuasive script or step-by-step strategy (at least 2-3 paragraphs or bullet points). 
+    The pitch should tell the buyer exactly what to say to the seller, specifically leveraging the identified cons, red flags, and market data to justify a lower price. 
+    Do not leave this field empty.
+    
+    Return ONLY a JSON object with these keys:
+    {
+      "make": string,
+      "model": string,
+      "year": number,
+      "price": number,
+      "mileage": number,
+      "location": string,
+      "condition": string,
+      "vin": string (17 chars if found),
+      "dealRating": "Great" | "Good" | "Fair" | "Poor" | "Suspicious",
+      "dealScore": number (0-100),
+      "summary": string,
+      "redFlags": [{
+        "category": "title" | "mechanical" | "pricing" | "scam" | "documentation" | "other",
+        "severity": "critical" | "high" | "medium" | "low",
+        "message": string (one sentence a buyer can act on),
+        "evidence": string (the exact words from the listing that show it, if any)
+      }],
+      "pros": string[],
+      "cons": string[],
+      "marketComparison": {
+        "averagePrice": number,
+        "lowPrice": number,
+        "highPrice": number,
+        "similarCarsCount": number
+      },
+      "negotiationPitch": string,
+      "vinData": {
+        "accidentHistory": string (Summary of any accidents found via search),
+        "titleStatus": string (e.g., Clean, Salvage, Rebuilt, Unknown)
+      },
+      "sources": {
+        "<field>": { "origin": "inferred" | "search" | "estimated", "confidence": number (0-1) }
+      } (one entry for each of make, model, year, price, mileage, location, condition, vin, vinData.titleStatus,
+         vinData.accidentHistory, marketComparison, and "redFlags.0", "redFlags.1", … for each red flag in order.
+         "inferred" if you read or worked it out from the listing, "search" if it came from a Google Search result,
+         "estimated" if you guessed it)
+    }`;
+}
+
+function buildCorrectionPrompt(error: AnalysisValidationError): string {
+  const problems = error.issues.map(i => `- ${i.field}: ${i.message}`).join("\n");
+  return `Your previous response could not be used because these fields were invalid:
+${problems}
+
+Reply again with ONLY the corrected JSON object, using the same keys as before.
+Numbers must be plain JSON numbers (no "$", commas or units), "dealRating" must be one of "Great", "Good", "Fair", "Poor" or "Suspicious", and "dealScore" must be between 0 and 100.`;
+}
+
+/**
+ * Asks the model for an analysis and validates it. A response that fails
+ * validation gets exactly one corrective re-prompt before we give up.
+ */
+async function generateAnalysis(
+  source: ListingSource,
+  facts: ListingFacts,
+  provider: LLMProvider,
+  signal?: AbortSignal,
+): Promise<{ analysis: CarAnalysis; response: LLMResponse; redFlagIndexes: Map<number, number> }> {
+  const messages: LLMMessage[] = [{
+    role: "user",
+    text: buildAnalysisPrompt(source, facts),
+    images: source.kind === "images" ? source.images : undefined,
+  }];
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await generateWithRetry(provider, {
+      key: sourceKey(source),
+      messages,
+      tools: { urlContext: source.kind === "url", googleSearch: true },
+    }, signal);
+    const { text } = response;
+
+    try {
+      const raw = extractJson(text);
+      const analysis = parseCarAnalysis(raw);
+      // parseCarAnalysis only accepts objects
+      return { analysis, response, redFlagIndexes: normalizedRedFlagIndexes((raw as Record<string, unknown>).redFlags) };
+    } catch (err) {
+      if (!(err instanceof AnalysisValidationError) || attempt >= 1) throw err;
+      console.warn("AI response failed validation, re-prompting:", err.issues);
+      messages.push(
+        { role: "model", text },
+        { role: "user", text: buildCorrectionPrompt(err) },
+      );
+    }
+  }
+}
+
+/** Overwrites whatever the model said with the facts parsed from the listing. Returns the fields it replaced. */
+function applyFacts(analysis: CarAnalysis, facts: ListingFacts): SourcedField[] {
+  return copyFacts(analysis, facts);
+}
+
+/**
+ * Runs the whole pipeline. The model call retries on its own (see
+ * generateWithRetry); NHTSA failures only cost the VIN details and recalls,
+ * and are reported as failed stages rather than failing the analysis.
+ */
+export async function analyzeCarListing(
+  source: ListingSource,
+  provider: LLMProvider = getLLMProvider(),
+  { onProgress = () => {}, signal }: ProgressOptions = {},
+): Promise<CarAnalysis> {
+  const facts = await gatherFacts(source, { onProgress, signal });
+
+  let running: AnalysisStage | null = null;
+  const start = (stage: AnalysisStage) => {
+    running = stage;
+    onProgress({ type: "stage", stage, status: "running" });
+  };
+  const finish = (status: AnalysisStageStatus, detail?: string) => {
+    if (running) onProgress({ type: "stage", stage: running, status, detail });
+    running = null;
+  };
+  const skip = (stage: AnalysisStage, detail: string) => onProgress({ type: "stage", stage, status: "skipped", detail });
+  // A cancelled analysis stops here; any other NHTSA failure is logged and reported on the stage
+  const nhtsaFailed = (err: any, label: string) => {
+    if (isAbortError(err)) throw err;
+    console.error(`Error ${label}:`, err);
+    finish("failed", err.message);
+  };
+
+  try {
+    start("extraction");
+    const { analysis, response, redFlagIndexes } = await generateAnalysis(source, facts, provider, signal);
+    analysis.source = describeAnalysisSource(source);
+    attributeSources(analysis, response, redFlagIndexes, applyFacts(analysis, facts), source.url);
+
+    // Validate the VIN locally so invented or mistyped VINs are never decoded as fact
+    if (analysis.vin) {
+      const vinCheck = checkVin(analysis.vin, analysis);
+      analysis.vinData = { ...analysis.vinData, vinCheck };
+    }
+    analysis.redFlags = applyRedFlagRules(analysis, listingText(source, facts));
+    finish("done", `${analysis.year} ${analysis.make} ${analysis.model}`);
+    const { make, model, year, price, mileage, location, condition, summary, marketComparison, vin } = analysis;
+    onProgress({ type: "partial", analysis: { make, model, year, price, mileage, location, condition, summary, marketComparison, vin } });
+
+    // If a valid VIN is found, fetch additional data from NHTSA
+    if (analysis.vin && analysis.vinData?.vinCheck?.valid) {
+      start("vin");
+      let decoded: DecodedVehicle | undefined;
+      try {
+        decoded = await decodeVin(analysis.vin, signal);
+        analysis.vinData = { ...analysis.vinData, ...decoded.vinData };
+        finish("done", [decoded.modelYear, decoded.make, decoded.model].filter(Boolean).join(" ") || undefined);
+      } catch (vinErr) {
+        nhtsaFailed(vinErr, "decoding VIN");
+      }
+
+      if (decoded) {
+        start("recalls");
+        try {
+          // Prefer the VIN's own make/model/year so recalls match the actual vehicle
+          const { recalls, excluded } = await fetchRecalls({
+            make: decoded.make || analysis.make,
+            model: decoded.model || analysis.model,
+            year: decoded.modelYear || analysis.year,
+          }, decoded.vinData, signal);
+          analysis.vinData!.recalls = recalls;
+          analysis.vinData!.excludedRecalls = excluded;
+          finish("done", `${recalls.length} recall${recalls.length === 1 ? "" : "s"} found`);
+        } catch (recallErr) {
+          nhtsaFailed(recallErr, "fetching recalls");
+        }
+      } else {
+        skip("recalls", "Needs a decoded VIN");
+      }
+    } else {
+      const reason = analysis.vin ? "The VIN failed its check digit" : "No VIN in the listing";
+      skip("vin", reason);
+      skip("recalls", reason);
+    }
+
+    start("scoring");
+    const breakdown = scoreDeal(analysis);
+    analysis.scoreBreakdown = breakdown;
+    analysis.dealScore = breakdown.score;
+    analysis.dealRating = breakdown.rating;
+    finish("done", `${breakdown.score}/100, ${breakdown.rating}`);
+
+    return analysis;
+  } catch (error: any) {
+    finish("failed", isAbortError(error) ? "Cancelled" : error.message);
+    throw error;
+  }
+}
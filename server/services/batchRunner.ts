@@ -0,0 +1,112 @@
+import db from '../db';
+import { ListingUnreachableError, ModelOutputInvalidError, RateLimitedError } from '../errors';
+import { FixtureNotFoundError } from '../llm';
+import { backoffDelay } from '../retry';
+import { findCachedAnalysis, storeAnalysis } from './analysisCache';
+import { analyzeCarListing } from './analysisService';
+
+const CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 2);
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+interface QueuedItem {
+  id: number;
+  url: string;
+  attempts: number;
+}
+
+let active = 0;
+// A rate limit from the model applies to every job, so it pauses the whole queue.
+let pausedUntil = 0;
+let wakeTimer: NodeJS.Timeout | null = null;
+
+function claimNextItem(): QueuedItem | undefined {
+  return db
+    .prepare(`UPDATE batch_items SET status = 'running', attempts = attempts + 1, updated_at = datetime('now')
+      WHERE id = (
+        SELECT id FROM batch_items WHERE status = 'queued' AND next_attempt_at <= ? ORDER BY id LIMIT 1
+      )
+      RETURNING id, url, attempts`)
+    .get(Date.now()) as QueuedItem | undefined;
+}
+
+function nextWakeDelay(): number | null {
+  const row = db
+    .prepare("SELECT MIN(next_attempt_at) AS next FROM batch_items WHERE status = 'queued'")
+    .get() as { next: number | null };
+  if (row.next === null) return null;
+  return Math.max(0, row.next, pausedUntil) - Date.now();
+}
+
+function scheduleWake(delay: number) {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    pump();
+  }, Math.max(0, delay));
+}
+
+async function runItem(item: QueuedItem) {
+  try {
+    // Quota was charged for this item when it was queued; listings cached then never reach the runner
+    const analysis = findCachedAnalysis(item.url)
+      ?? storeAnalysis(item.url, await analyzeCarListing({ kind: 'url', url: item.url }));
+    db.prepare(`UPDATE batch_items SET status = 'done', result = ?, error = NULL, updated_at = datetime('now') WHERE id = ?`)
+      .run(JSON.stringify(analysis), item.id);
+  } catch (err: any) {
+    // The model call already retried short waits; what reaches here needs the queue to back off
+    const rateLimited = err instanceof RateLimitedError;
+    const delay = (rateLimited && err.retryAfterMs) || backoffDelay(item.attempts - 1, BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+    if (rateLimited) pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+
+    // Failures that would only repeat themselves, spending quota each time
+    const retryable = !(
+      err instanceof FixtureNotFoundError ||
+      err instanceof ListingUnreachableError ||
+      err instanceof ModelOutputInvalidError
+    );
+    if (retryable && item.attempts < MAX_ATTEMPTS) {
+      console.warn(`[batch] item ${item.id} attempt ${item.attempts} failed, retrying in ${Math.round(delay / 1000)}s:`, err.message);
+      db.prepare(`UPDATE batch_items SET status = 'queued', next_attempt_at = ?, error = ?, updated_at = datetime('now') WHERE id = ?`)
+        .run(Date.now() + delay, err.message, item.id);
+    } else {
+      console.error(`[batch] item ${item.id} failed after ${item.attempts} attempts:`, err.message);
+      db.prepare(`UPDATE batch_items SET status = 'failed', error = ?, updated_at = datetime('now') WHERE id = ?`)
+        .run(rateLimited ? 'Rate limited by the AI provider. Try this listing again later.' : err.message, item.id);
+    }
+  }
+}
+
+function pump() {
+  if (Date.now() < pausedUntil) {
+    scheduleWake(pausedUntil - Date.now());
+    return;
+  }
+
+  while (active < CONCURRENCY) {
+    const item = claimNextItem();
+    if (!item) break;
+    active++;
+    runItem(item).finally(() => {
+      active--;
+      pump();
+    });
+  }
+
+  if (active < CONCURRENCY) {
+    const delay = nextWakeDelay();
+    if (delay !== null) scheduleWake(delay);
+  }
+}
+
+/** Starts processing newly queued items. Safe to call any number of times. */
+export function kickBatchRunner() {
+  pump();
+}
+
+/** Requeues items interrupted by a restart and resumes the queue. */
+export function startBatchRunner() {
+  db.prepare("UPDATE batch_items SET status = 'queued' WHERE status = 'running'").run();
+  pump();
+}
@@ -0,0 +1,43 @@
+import db from '../db';
+import { upgradeStoredAnalysis } from './analysisSchema';
+import type { DealVersion } from '../../src/types';
+
+interface VersionRow {
+  id: number;
+  data: string;
+  analyzed_at: string;
+}
+
+// The owner's TCO estimate is re-stamped on every save, so it is not part of what makes a new version
+function analysisKey(data: object): string {
+  const { tco, ...analysis } = data as { tco?: unknown };
+  return JSON.stringify(analysis, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+/**
+ * Keeps `data` as the newest analysis of the deal; call whenever its analysis
+ * is replaced. Saving the same analysis again does not add a version.
+ */
+export function recordVersion(dealId: number, data: object) {
+  const latest = db
+    .prepare('SELECT data FROM deal_versions WHERE deal_id = ? ORDER BY id DESC LIMIT 1')
+    .get(dealId) as Pick<VersionRow, 'data'> | undefined;
+  if (latest && analysisKey(JSON.parse(latest.data)) === analysisKey(data)) return;
+  db.prepare('INSERT INTO deal_versions (deal_id, data) VALUES (?, ?)').run(dealId, JSON.stringify(data));
+}
+
+/** Every analysis of the deal, oldest first. */
+export function getVersions(dealId: number): DealVersion[] {
+  const rows = db
+    .prepare('SELECT id, data, analyzed_at FROM deal_versions WHERE deal_id = ? ORDER BY id')
+    .all(dealId) as VersionRow[];
+  return rows.map(row => ({
+    id: row.id,
+    analyzedAt: row.analyzed_at,
+    analysis: upgradeStoredAnalysis(JSON.parse(row.data)),
+  }));
+}
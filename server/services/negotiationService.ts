@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import type { CarAnalysis, NegotiationTargets } from "../../src/types";
+import { generateWithRetry, getLLMProvider, type LLMMessage, type LLMProvider } from "../llm";
+import { AnalysisValidationError } from "./analysisSchema";
+
+const TARGET_LABELS: [keyof Pick<NegotiationTargets, "opening" | "target" | "walkAway">, string][] = [
+  ["opening", "Opening offer"],
+  ["target", "Target price"],
+  ["walkAway", "Walk-away price"],
+];
+
+function formatRedFlags(analysis: CarAnalysis): string {
+  return analysis.redFlags.length ? analysis.redFlags.map(f => `${f.message} (${f.severity})`).join("; ") : "none found";
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+function buildPitchPrompt(analysis: CarAnalysis, targets: NegotiationTargets): string {
+  const market = analysis.marketComparison;
+  const numbers = TARGET_LABELS.map(([key, label]) => {
+    const { price, monthlyPayment } = targets[key];
+    return `- ${label}: ${formatMoney(price)}${monthlyPayment ? ` (about ${formatMoney(monthlyPayment)}/month financed)` : ""}`;
+  }).join("\n");
+
+  return `You are coaching a buyer negotiating for a used ${analysis.year} ${analysis.make} ${analysis.model}.
+    Asking price: ${formatMoney(analysis.price)}. Mileage: ${analysis.mileage.toLocaleString("en-US")} miles. Location: ${analysis.location}.
+    Market range for comparable cars: ${formatMoney(market.lowPrice)} low, ${formatMoney(market.averagePrice)} average, ${formatMoney(market.highPrice)} high.
+    Red flags: ${formatRedFlags(analysis)}.
+    Cons: ${analysis.cons.length ? analysis.cons.join("; ") : "none found"}.
+
+    The buyer has settled on these numbers:
+${numbers}
+${targets.notes.length ? `    Notes: ${targets.notes.join("; ")}.\n` : ""}
+    Write a detailed, persuasive negotiation script (at least 2-3 paragraphs or a step-by-step list in Markdown) that
+    tells the buyer exactly what to say. It MUST quote the opening offer, the target price and the walk-away price
+    explicitly as dollar amounts, justify each with the market data, red flags and cons above, and tell the buyer to
+    walk away politely if the seller will not come down to the walk-away price.
+
+    Return ONLY the script, with no JSON and no preamble.`;
+}
+
+/** The target dollar amounts that are missing from a pitch, in any common formatting. */
+function missingTargets(pitch: string, targets: NegotiationTargets): string[] {
+  const digits = pitch.replace(/[,\s]/g, "");
+  return TARGET_LABELS
+    .filter(([key]) => {
+      const price = targets[key].price;
+      const shorthand = price % 1000 === 0 ? `${price / 1000}k` : `${(price / 1000).toFixed(1)}k`;
+      return !digits.includes(String(price)) && !digits.toLowerCase().includes(shorthand);
+    })
+    .map(([key, label]) => `${label} (${formatMoney(targets[key].price)})`);
+}
+
+/**
+ * Rewrites the negotiation pitch around concrete price targets. A pitch that
+ * leaves out any of the three numbers gets one corrective re-prompt.
+ */
+export async function writeNegotiationPitch(
+  analysis: CarAnalysis,
+  targets: NegotiationTargets,
+  provider: LLMProvider = getLLMProvider(),
+): Promise<string> {
+  const key = `pitch:${crypto
+    .createHash("sha256")
+    .update(JSON.stringify([analysis.year, analysis.make, analysis.model, analysis.price, targets.opening, targets.target, targets.walkAway]))
+    .digest("hex")
+    .slice(0, 32)}`;
+  const messages: LLMMessage[] = [{ role: "user", text: buildPitchPrompt(analysis, targets) }];
+
+  for (let attempt = 0; ; attempt++) {
+    const { text } = await generateWithRetry(provider, { key, messages });
+    const pitch = text.replace(/^```(?:markdown)?\s*|\s*```$/g, "").trim();
+    const missing = missingTargets(pitch, targets);
+    if (pitch && missing.length === 0) return pitch;
+
+    if (attempt >= 1) {
+      throw new AnalysisValidationError(
+        pitch ? missing.map(m => ({ field: "negotiationPitch", message: `does not quote the ${m}` })) : [{ field: "negotiationPitch", message: "empty" }],
+      );
+    }
+    messages.push(
+      { role: "model", text },
+      { role: "user", text: `Rewrite the script so it explicitly quotes ${missing.join(", ")}. Return ONLY the script.` },
+    );
+  }
+}
+
+function describeDealForCoach(analysis: CarAnalysis): string {
+  const market = analysis.marketComparison;
+  const recalls = analysis.vinData?.recalls || [];
+  const targets = analysis.financing?.targets;
+
+  return `You are a calm, practical negotiation coach helping a buyer negotiate for this used car by text or email with the seller.
+    Car: ${analysis.year} ${analysis.make} ${analysis.model}, ${analysis.mileage.toLocaleString("en-US")} miles, ${analysis.location}.
+    Asking price: ${formatMoney(analysis.price)}.
+    Market range for comparable cars: ${formatMoney(market.lowPrice)} low, ${formatMoney(market.averagePrice)} average, ${formatMoney(market.highPrice)} high.
+    Title: ${analysis.vinData?.titleStatus || "unknown"}. Accident history: ${analysis.vinData?.accidentHistory || "unknown"}.
+    Red flags: ${formatRedFlags(analysis)}.
+    Cons: ${analysis.cons.length ? analysis.cons.join("; ") : "none found"}.
+    Recalls on this model: ${recalls.length ? recalls.map(r => `${r.component} (${r.campaignNumber})`).join("; ") : "none found"}.
+${targets ? `    The buyer's numbers: open at ${formatMoney(targets.opening.price)}, aim for ${formatMoney(targets.target.price)}, walk away above ${formatMoney(targets.walkAway.price)}.\n` : ""}
+    The buyer will paste the seller's messages or ask you questions. For each one, briefly read the situation
+    (1-2 sentences: what the seller is signalling and how much room there is), then give a "**Suggested reply:**"
+    the buyer can send word for word. Ground every argument in the facts above; never invent facts about the car.
+    ${targets ? "Never suggest paying more than the walk-away price." : "Never suggest paying more than the market average."}
+    Answer in Markdown and keep it short.`;
+}
+
+/**
+ * Continues a negotiation coaching conversation. The deal's analysis is sent
+ * ahead of the first user message on every turn so the model stays grounded
+ * in that listing. `history` must end with the user's new message.
+ */
+export async function coachNegotiation(
+  analysis: CarAnalysis,
+  history: { role: "user" | "coach"; text: string }[],
+  key: string,
+  provider: LLMProvider = getLLMProvider(),
+): Promise<string> {
+  const messages: LLMMessage[] = history.map((message, i) => ({
+    role: message.role === "coach" ? "model" : "user",
+    text: i === 0 ? `${describeDealForCoach(analysis)}\n\n${message.text}` : message.text,
+  }));
+
+  const { text } = await generateWithRetry(provider, { key, messages });
+  const reply = text.trim();
+  if (!reply) throw new AnalysisValidationError([{ field: "reply", message: "empty" }]);
+  return reply;
+}
@@ -0,0 +1,68 @@
+import { fetchWithRetry, type RetryOptions } from "../retry";
+import { dedupeRecalls, filterApplicableRecalls, normalizeRecall, type RecallVehicleAttributes } from "../../src/lib/recalls";
+import type { CarAnalysis, Recall } from "../../src/types";
+
+type VinData = NonNullable<CarAnalysis["vinData"]>;
+
+export interface DecodedVehicle {
+  make?: string;
+  model?: string;
+  modelYear?: number;
+  vinData: VinData;
+}
+
+// NHTSA is usually quick; a slow answer is not worth holding up the whole analysis
+const NHTSA_RETRY: Omit<RetryOptions, "signal"> = { service: "NHTSA", timeoutMs: 8000, retries: 2, baseDelayMs: 500, maxDelayMs: 5000 };
+
+async function fetchNhtsaJson(url: string, signal?: AbortSignal): Promise<any> {
+  const response = await fetchWithRetry(url, {}, { ...NHTSA_RETRY, signal });
+  return response.json();
+}
+
+function present(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() && value !== "Not Applicable" ? value.trim() : undefined;
+}
+
+export async function decodeVin(vin: string, signal?: AbortSignal): Promise<DecodedVehicle> {
+  const json = await fetchNhtsaJson(`https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValues/${encodeURIComponent(vin)}?format=json`, signal);
+  const data = json.Results?.[0];
+  if (!data) throw new Error("NHTSA returned no decode results");
+
+  return {
+    make: present(data.Make),
+    model: present(data.Model),
+    modelYear: Number(data.ModelYear) || undefined,
+    vinData: {
+      manufacturer: present(data.Manufacturer),
+      plantCountry: present(data.PlantCountry),
+      bodyClass: present(data.BodyClass),
+      engineHP: present(data.EngineHP),
+      fuelType: present(data.FuelTypePrimary),
+      displacementL: present(data.DisplacementL),
+      driveType: present(data.DriveType),
+      trim: present(data.Trim),
+      electrification: present(data.ElectrificationLevel),
+    },
+  };
+}
+
+/**
+ * Fetches model-wide recalls, collapses repeated campaigns and drops the ones
+ * that conflict with this vehicle's decoded engine, fuel or body style.
+ */
+export async function fetchRecalls(
+  vehicle: { make: string; model: string; year: number },
+  attributes: RecallVehicleAttributes,
+  signal?: AbortSignal,
+): Promise<{ recalls: Recall[]; excluded: { campaignNumber: string; reason: string }[] }> {
+  const params = new URLSearchParams({
+    make: vehicle.make,
+    model: vehicle.model,
+    modelYear: String(vehicle.year),
+  });
+  const json = await fetchNhtsaJson(`https://api.nhtsa.gov/recalls/recallsByVehicle?${params}`, signal);
+
+  const recalls = dedupeRecalls((json.results || []).map(normalizeRecall));
+  const { applicable, excluded } = filterApplicableRecalls(recalls, attributes);
+  return { recalls: applicable, excluded };
+}
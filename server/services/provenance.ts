@@ -0,0 +1,131 @@
+import type { CarAnalysis, Citation, SourcedField, SourcePath } from "../../src/types";
+import type { LLMResponse } from "../llm";
+import { SOURCED_FIELDS } from "./analysisSchema";
+
+/**
+ * Character span of every value in the first JSON object of `text`, keyed by
+ * dotted path ("price", "vinData.titleStatus", "redFlags.0"). Tolerates
+ * fences and chatter around the object; malformed input yields a partial map.
+ */
+export function locateJsonSpans(text: string): Map<string, [number, number]> {
+  const spans = new Map<string, [number, number]>();
+  let i = text.indexOf("{");
+  if (i === -1) return spans;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = (): string => {
+    const start = i++;
+    while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    i++;
+    return text.slice(start, i);
+  };
+  const readMembers = (close: string, readMember: () => void) => {
+    i++;
+    skipWhitespace();
+    while (i < text.length && text[i] !== close) {
+      const before = i;
+      readMember();
+      skipWhitespace();
+      if (text[i] === ",") i++;
+      skipWhitespace();
+      if (i === before) i++; // never stall on malformed input
+    }
+    i++;
+  };
+  const readValue = (path: string) => {
+    skipWhitespace();
+    const start = i;
+    if (text[i] === "{") {
+      readMembers("}", () => {
+        let key = "";
+        try {
+          key = JSON.parse(readString());
+        } catch {
+          // keep scanning; the value is still skipped correctly
+        }
+        skipWhitespace();
+        if (text[i] === ":") i++;
+        readValue(path ? `${path}.${key}` : key);
+      });
+    } else if (text[i] === "[") {
+      let index = 0;
+      readMembers("]", () => readValue(`${path}.${index++}`));
+    } else if (text[i] === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[,\]}\s]/.test(text[i])) i++;
+    }
+    if (path) spans.set(path, [start, i]);
+  };
+
+  readValue("");
+  return spans;
+}
+
+/**
+ * The source path a span of the model's JSON belongs to. Red flags are
+ * renumbered to their place in the analysis, since flags without a message
+ * were dropped; spans of dropped flags and of unsourced fields yield undefined.
+ */
+function toSourcePath(path: string, redFlagIndexes: Map<number, number>): SourcePath | undefined {
+  if ((SOURCED_FIELDS as string[]).includes(path)) return path as SourcePath;
+  const flag = path.match(/^redFlags\.(\d+)$/);
+  const index = flag ? redFlagIndexes.get(Number(flag[1])) : undefined;
+  return index === undefined ? undefined : `redFlags.${index}`;
+}
+
+/**
+ * Completes `analysis.sources`: fields the server parsed from the listing are
+ * marked extracted, and any field or red flag the model's grounding metadata
+ * backs with web results gets those citations and their confidence. Whatever
+ * the model reported about the remaining fields is kept as is.
+ */
+export function attributeSources(
+  analysis: CarAnalysis,
+  response: LLMResponse,
+  redFlagIndexes: Map<number, number>,
+  extracted: SourcedField[],
+  listingUrl?: string,
+) {
+  const sources = { ...analysis.sources };
+  const grounding = response.grounding;
+
+  if (grounding?.supports.length) {
+    for (const [spanPath, [start, end]] of locateJsonSpans(response.text)) {
+      const path = toSourcePath(spanPath, redFlagIndexes);
+      if (!path) continue;
+      const supports = grounding.supports.filter(s => s.startIndex < end && s.endIndex > start);
+
+      const citations = new Map<string, Citation>();
+      for (const support of supports) {
+        for (const index of support.citationIndices) {
+          const citation = grounding.citations[index];
+          if (citation?.uri && !citations.has(citation.uri)) {
+            citations.set(citation.uri, { url: citation.uri, title: citation.title });
+          }
+        }
+      }
+      if (!citations.size) continue;
+
+      const reported = sources[path];
+      const confidences = supports.map(s => s.confidence).filter((c): c is number => c !== undefined);
+      sources[path] = {
+        origin: reported?.origin === "inferred" ? "inferred" : "search",
+        confidence: confidences.length ? Math.max(...confidences) : reported?.confidence ?? 0.6,
+        citations: [...citations.values()],
+      };
+    }
+  }
+
+  for (const field of extracted) {
+    sources[field] = {
+      origin: "extracted",
+      confidence: 1,
+      citations: listingUrl ? [{ url: listingUrl, title: "Listing" }] : [],
+    };
+  }
+
+  if (Object.keys(sources).length) analysis.sources = sources;
+}
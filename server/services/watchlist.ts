@@ -0,0 +1,158 @@
+import db from '../db';
+import { getLLMProvider } from '../llm';
+import { BlockedUrlError, fetchPublicUrl } from '../scraper';
+import { analyzeCarListing } from './analysisService';
+import type { PricePoint, WatchNotification } from '../../src/types';
+
+const CHECK_INTERVAL_MINUTES = Number(process.env.WATCH_INTERVAL_MINUTES ?? 360);
+
+interface WatchedDealRow {
+  id: number;
+  user_id: number;
+  url: string;
+  data: string;
+}
+
+interface SnapshotRow {
+  deal_id: number;
+  price: number | null;
+  mileage: number | null;
+  status: PricePoint['status'];
+  checked_at: string;
+}
+
+function toPricePoint(row: SnapshotRow): PricePoint {
+  return { price: row.price, mileage: row.mileage, status: row.status, checkedAt: row.checked_at };
+}
+
+/** Price history for each of the given deals, oldest first. */
+export function getPriceHistories(dealIds: number[]): Map<number, PricePoint[]> {
+  const histories = new Map<number, PricePoint[]>();
+  if (dealIds.length === 0) return histories;
+
+  const rows = db
+    .prepare(`SELECT deal_id, price, mileage, status, checked_at FROM deal_snapshots
+      WHERE deal_id IN (${dealIds.map(() => '?').join(',')}) ORDER BY checked_at, id`)
+    .all(...dealIds) as SnapshotRow[];
+  for (const row of rows) {
+    const history = histories.get(row.deal_id) || [];
+    history.push(toPricePoint(row));
+    histories.set(row.deal_id, history);
+  }
+  return histories;
+}
+
+function recordSnapshot(dealId: number, point: Omit<PricePoint, 'checkedAt'>) {
+  db.prepare('INSERT INTO deal_snapshots (deal_id, price, mileage, status) VALUES (?, ?, ?, ?)')
+    .run(dealId, point.price, point.mileage, point.status);
+}
+
+function notify(userId: number, dealId: number, kind: WatchNotification['kind'], message: string) {
+  db.prepare('INSERT INTO notifications (user_id, deal_id, kind, message) VALUES (?, ?, ?, ?)')
+    .run(userId, dealId, kind, message);
+}
+
+/** Seeds the price history with the saved analysis so the first re-check has a baseline. */
+export function startWatching(dealId: number) {
+  const existing = db.prepare('SELECT 1 FROM deal_snapshots WHERE deal_id = ? LIMIT 1').get(dealId);
+  if (existing) return;
+
+  const row = db.prepare('SELECT data FROM deals WHERE id = ?').get(dealId) as { data: string } | undefined;
+  if (!row) return;
+  const data = JSON.parse(row.data);
+  recordSnapshot(dealId, { price: data.price ?? null, mileage: data.mileage ?? null, status: 'active' });
+}
+
+/**
+ * Returns "delisted" when the listing page is definitely gone. Anything else,
+ * including bot-blocking 403s, is left for the model to judge. A URL that
+ * leads to a private host throws, so the deal is not checked at all.
+ */
+async function probeListing(url: string): Promise<'active' | 'delisted'> {
+  try {
+    const response = await fetchPublicUrl(url, { method: 'GET' }, { service: 'Listing site', timeoutMs: 15_000, retries: 1 });
+    await response.body?.cancel();
+    return response.status === 404 || response.status === 410 ? 'delisted' : 'active';
+  } catch (err) {
+    if (err instanceof BlockedUrlError) throw err;
+    return 'active';
+  }
+}
+
+function describeVehicle(data: any): string {
+  return [data.year, data.make, data.model].filter(Boolean).join(' ');
+}
+
+async function checkDeal(deal: WatchedDealRow) {
+  const data = JSON.parse(deal.data);
+  const vehicle = describeVehicle(data);
+  const history = getPriceHistories([deal.id]).get(deal.id) || [];
+  const previous = history[history.length - 1];
+  const lastActive = [...history].reverse().find(p => p.status === 'active' && p.price !== null);
+
+  const status = await probeListing(deal.url);
+  if (status === 'delisted') {
+    if (previous?.status !== 'delisted') {
+      notify(deal.user_id, deal.id, 'delisted', `The listing for your ${vehicle} is no longer available.`);
+    }
+    recordSnapshot(deal.id, { price: previous?.price ?? null, mileage: previous?.mileage ?? null, status });
+    return;
+  }
+
+  const analysis = await analyzeCarListing({ kind: 'url', url: deal.url });
+  recordSnapshot(deal.id, { price: analysis.price, mileage: analysis.mileage, status });
+
+  if (previous?.status === 'delisted') {
+    notify(deal.user_id, deal.id, 'relisted', `Your ${vehicle} is listed again at $${analysis.price.toLocaleString()}.`);
+  }
+  if (lastActive?.price && analysis.price && analysis.price !== lastActive.price) {
+    const change = analysis.price - lastActive.price;
+    const kind = change < 0 ? 'price_drop' : 'price_increase';
+    notify(
+      deal.user_id,
+      deal.id,
+      kind,
+      `${vehicle} ${change < 0 ? 'dropped' : 'rose'} $${Math.abs(change).toLocaleString()} to $${analysis.price.toLocaleString()}.`,
+    );
+  }
+}
+
+/** Re-checks every watched deal that has not been checked within the interval. */
+export async function runWatchlistCheck() {
+  if (!getLLMProvider().isAvailable()) return;
+
+  const due = db
+    .prepare(`SELECT id, user_id, url, data FROM deals
+      WHERE watched = 1 AND (last_checked_at IS NULL OR last_checked_at <= datetime('now', ?))
+      ORDER BY last_checked_at`)
+    .all(`-${CHECK_INTERVAL_MINUTES} minutes`) as WatchedDealRow[];
+
+  // One at a time, so a large watchlist does not burst through the model's rate limit.
+  for (const deal of due) {
+    // Stamp before checking so a failing listing waits a full interval before the next attempt.
+    db.prepare("UPDATE deals SET last_checked_at = datetime('now') WHERE id = ?").run(deal.id);
+    try {
+      await checkDeal(deal);
+    } catch (err) {
+      console.error(`[watchlist] failed to re-check deal ${deal.id}:`, err);
+    }
+  }
+}
+
+export function startWatchlistScheduler() {
+  if (CHECK_INTERVAL_MINUTES <= 0) return;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runWatchlistCheck();
+    } finally {
+      running = false;
+    }
+  };
+
+  // Poll more often than the interval so newly watched deals are picked up promptly.
+  setInterval(tick, Math.min(CHECK_INTERVAL_MINUTES, 15) * 60 * 1000).unref();
+}
@@ -0,0 +1,81 @@
+import db from '../db';
+import type { DealVotes, Workspace } from '../../src/types';
+
+export function isWorkspaceMember(userId: number, workspaceId: number): boolean {
+  return Boolean(db
+    .prepare('SELECT 1 FROM workspace_members WHERE workspace_id = ? AND user_id = ?')
+    .get(workspaceId, userId));
+}
+
+/** The user's role in the workspace, or undefined when they are not a member. */
+export function getWorkspaceRole(userId: number, workspaceId: number): Workspace['role'] | undefined {
+  const row = db
+    .prepare('SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?')
+    .get(workspaceId, userId) as { role: Workspace['role'] } | undefined;
+  return row?.role;
+}
+
+/**
+ * Takes the user out of the workspace, moving the deals they saved there back
+ * to their personal list. Returns false when they were not a member.
+ */
+export function removeWorkspaceMember(workspaceId: number, userId: number): boolean {
+  return db.transaction(() => {
+    const result = db.prepare('DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?').run(workspaceId, userId);
+    if (result.changes === 0) return false;
+    db.prepare('UPDATE deals SET workspace_id = NULL WHERE workspace_id = ? AND user_id = ?').run(workspaceId, userId);
+    return true;
+  })();
+}
+
+export interface OwnDeal {
+  id: number;
+  url: string;
+  data: string;
+}
+
+/** A deal the user saved themselves; only they may change, share or re-analyze it. */
+export function findOwnDeal(userId: number, dealId: string | number): OwnDeal | undefined {
+  return db
+    .prepare('SELECT id, url, data FROM deals WHERE id = ? AND user_id = ?')
+    .get(Number(dealId), userId) as OwnDeal | undefined;
+}
+
+/**
+ * A deal the user may read: one they saved, or one saved to a workspace they
+ * belong to. Changing a deal stays limited to the member who saved it.
+ */
+export function findVisibleDeal(userId: number, dealId: string | number): { id: number; user_id: number; workspace_id: number | null } | undefined {
+  return db
+    .prepare(`SELECT id, user_id, workspace_id FROM deals
+      WHERE id = ? AND (user_id = ? OR workspace_id IN (SELECT workspace_id FROM workspace_members WHERE user_id = ?))`)
+    .get(Number(dealId), userId, userId) as { id: number; user_id: number; workspace_id: number | null } | undefined;
+}
+
+/** Vote tallies (with the user's own vote) and comment counts for each of the given deals. */
+export function getDealFeedback(dealIds: number[], userId: number): Map<number, { votes: DealVotes; commentCount: number }> {
+  const feedback = new Map<number, { votes: DealVotes; commentCount: number }>();
+  if (dealIds.length === 0) return feedback;
+  for (const id of dealIds) {
+    feedback.set(id, { votes: { up: 0, down: 0, mine: 0 }, commentCount: 0 });
+  }
+
+  const placeholders = dealIds.map(() => '?').join(',');
+  const votes = db
+    .prepare(`SELECT deal_id, user_id, value FROM deal_votes WHERE deal_id IN (${placeholders})`)
+    .all(...dealIds) as { deal_id: number; user_id: number; value: number }[];
+  for (const vote of votes) {
+    const tally = feedback.get(vote.deal_id)!.votes;
+    if (vote.value > 0) tally.up++;
+    else tally.down++;
+    if (vote.user_id === userId) tally.mine = vote.value > 0 ? 1 : -1;
+  }
+
+  const counts = db
+    .prepare(`SELECT deal_id, COUNT(*) AS count FROM deal_comments WHERE deal_id IN (${placeholders}) GROUP BY deal_id`)
+    .all(...dealIds) as { deal_id: number; count: number }[];
+  for (const { deal_id, count } of counts) {
+    feedback.get(deal_id)!.commentCount = count;
+  }
+  return feedback;
+}
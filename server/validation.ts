@@ -0,0 +1,7 @@
+// Deliberately loose: something@something.tld, with no spaces
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Whether an email address (already trimmed and lowercased) is worth storing or inviting. */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
@@ -3,9 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
-  Search, 
   Car, 
   CheckCircle2, 
   XCircle, 
@@ -27,7 +26,18 @@ import {
   AlertTriangle,
   History,
   Bookmark,
-  Trash2
+  Trash2,
+  Columns3,
+  Eye,
+  EyeOff,
+  Layers,
+  FileText,
+  FileDown,
+  Braces,
+  ThumbsUp,
+  ThumbsDown,
+  MessageCircle,
+  Image as ImageIcon
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import ReactMarkdown from 'react-markdown';
@@ -42,66 +52,206 @@ import {
   Cell,
   ReferenceLine
 } from 'recharts';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-import { analyzeCarListing, type CarAnalysis } from './services/geminiService';
+import {
+  analyzeListing,
+  ApiError,
+  deleteDeal,
+  fetchDeals,
+  fetchNotifications,
+  fetchWorkspaces,
+  markNotificationsRead,
+  rewritePitch,
+  saveDeal as saveDealRequest,
+  updateDeal,
+  voteOnDeal,
+  type DealPatch,
+} from './services/api';
+import type { AnalysisProgressEvent, CarAnalysis, FinancingInputs, ListingSource, SavedDeal, TcoInputs, WatchNotification, Workspace } from './types';
+import AnalysisErrorPanel, { type AnalysisFailure } from './components/AnalysisErrorPanel';
+import AnalysisProgress, { type StageProgress } from './components/AnalysisProgress';
 import Auth from './components/Auth';
+import BatchAnalyzer from './components/BatchAnalyzer';
+import CacheNotice from './components/CacheNotice';
+import CompareView from './components/CompareView';
+import DealComments from './components/DealComments';
+import DealFilters from './components/DealFilters';
+import DealNotes from './components/DealNotes';
+import DealVersions from './components/DealVersions';
+import DealReport from './components/DealReport';
+import ListingInput from './components/ListingInput';
+import SourceBadge from './components/SourceBadge';
+import TcoPanel from './components/TcoPanel';
+import FinancingPanel from './components/FinancingPanel';
+import NegotiationCoach from './components/NegotiationCoach';
+import PriceSparkline from './components/PriceSparkline';
+import RecallPanel from './components/RecallPanel';
+import RedFlagsCard from './components/RedFlagsCard';
+import ScoreBreakdown from './components/ScoreBreakdown';
+import SharePanel from './components/SharePanel';
+import WatchNotifications from './components/WatchNotifications';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import { downloadAnalysisJson, printAnalysisReport } from './lib/report';
+import { applyDealQuery, collectTags, DEAL_STATUS_LABELS, EMPTY_DEAL_QUERY, type DealQuery } from './lib/savedDeals';
+import { cn } from './lib/utils';
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-const LOADING_MESSAGES = [
-  "Revving the engine...",
-  "Checking the service history...",
-  "Scanning for hidden red flags...",
-  "Comparing with market data...",
-  "Inspecting the virtual tires...",
-  "Decoding the seller's description...",
-  "Calculating the deal score...",
-];
+const MAX_COMPARE = 5;
 
 export default function App() {
   const [token, setToken] = useState<string | null>(localStorage.getItem('token'));
   const [user, setUser] = useState<{ email: string } | null>(JSON.parse(localStorage.getItem('user') || 'null'));
   const [url, setUrl] = useState('');
+  const [inputMode, setInputMode] = useState<ListingSource['kind']>('url');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<CarAnalysis | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loadingMsgIndex, setLoadingMsgIndex] = useState(0);
-  const [savedDeals, setSavedDeals] = useState<any[]>([]);
+  const [error, setError] = useState<AnalysisFailure | null>(null);
+  const [stageProgress, setStageProgress] = useState<StageProgress>({});
+  const [partialAnalysis, setPartialAnalysis] = useState<Partial<CarAnalysis>>({});
+  const [savedDeals, setSavedDeals] = useState<SavedDeal[]>([]);
+  const [dealQuery, setDealQuery] = useState<DealQuery>(EMPTY_DEAL_QUERY);
   const [showHistory, setShowHistory] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [notifications, setNotifications] = useState<WatchNotification[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastSource, setLastSource] = useState<ListingSource | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<number | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    if (isAnalyzing) {
-      const interval = setInterval(() => {
-        setLoadingMsgIndex((prev) => (prev + 1) % LOADING_MESSAGES.length);
-      }, 2500);
-      return () => clearInterval(interval);
+    if (token) {
+      loadNotifications();
+      loadWorkspaces();
     }
-  }, [isAnalyzing]);
+  }, [token]);
 
   useEffect(() => {
     if (token) {
       fetchSavedDeals();
     }
-  }, [token]);
+  }, [token, activeWorkspaceId]);
+
+  // A failed save belongs to the analysis it was for
+  useEffect(() => {
+    setSaveError(null);
+  }, [analysis]);
 
   const fetchSavedDeals = async () => {
     try {
-      const response = await fetch('/api/deals', {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setSavedDeals(data);
-      }
+      setSavedDeals(await fetchDeals(token!, activeWorkspaceId));
     } catch (err) {
+      if (err instanceof ApiError && err.status === 401) {
+        handleLogout();
+        return;
+      }
+      if (err instanceof ApiError && err.status === 404) {
+        // No longer a member of that workspace
+        setActiveWorkspaceId(null);
+        return;
+      }
       console.error("Failed to fetch deals", err);
     }
   };
 
+  const loadWorkspaces = async () => {
+    try {
+      setWorkspaces(await fetchWorkspaces(token!));
+    } catch (err) {
+      console.error("Failed to fetch workspaces", err);
+    }
+  };
+
+  const selectWorkspace = (workspaceId: number | null) => {
+    setActiveWorkspaceId(workspaceId);
+    setCompareIds([]);
+    setDealQuery(EMPTY_DEAL_QUERY);
+  };
+
+  const loadNotifications = async () => {
+    try {
+      setNotifications(await fetchNotifications(token!));
+    } catch (err) {
+      console.error("Failed to fetch notifications", err);
+    }
+  };
+
+  const markAllNotificationsRead = async () => {
+    try {
+      await markNotificationsRead(token!);
+      loadNotifications();
+    } catch (err) {
+      console.error("Failed to update notifications", err);
+    }
+  };
+
+  const patchDeal = async (id: string, patch: DealPatch) => {
+    const updated = await updateDeal(id, patch, token!);
+    setSavedDeals((prev) => prev.map((d) => (d._id === updated._id ? updated : d)));
+    return updated;
+  };
+
+  const toggleWatch = async (deal: SavedDeal) => {
+    try {
+      await patchDeal(deal._id, { watched: !deal.watched });
+    } catch (err) {
+      console.error("Failed to update watchlist", err);
+    }
+  };
+
+  // Moving a deal takes it out of the list being shown
+  const moveDeal = async (deal: SavedDeal, workspaceId: number | null) => {
+    try {
+      const updated = await updateDeal(deal._id, { workspaceId }, token!);
+      setSavedDeals((prev) => prev.filter((d) => d._id !== updated._id));
+      setCompareIds((prev) => prev.filter((id) => id !== updated._id));
+      setAnalysis((current) => (current && (current as SavedDeal)._id === updated._id ? updated : current));
+    } catch (err) {
+      console.error("Failed to move deal", err);
+    }
+  };
+
+  const vote = async (deal: SavedDeal, value: 1 | -1) => {
+    try {
+      const votes = await voteOnDeal(deal._id, deal.votes?.mine === value ? 0 : value, token!);
+      setSavedDeals((prev) => prev.map((d) => (d._id === deal._id ? { ...d, votes } : d)));
+    } catch (err) {
+      console.error("Failed to vote", err);
+    }
+  };
+
+  const setCommentCount = (dealId: string, commentCount: number) => {
+    setSavedDeals((prev) => prev.map((d) => (d._id === dealId ? { ...d, commentCount } : d)));
+  };
+
+  const saveTco = async (id: string, tcoInputs: TcoInputs) => {
+    const updated = await patchDeal(id, { tcoInputs });
+    setAnalysis((current) => (current && (current as SavedDeal)._id === id ? updated : current));
+  };
+
+  const saveDealDetails = async (id: string, patch: Pick<DealPatch, 'notes' | 'tags' | 'status'>) => {
+    const updated = await patchDeal(id, patch);
+    setAnalysis((current) => (current && (current as SavedDeal)._id === id ? updated : current));
+  };
+
+  const showReanalyzed = (updated: SavedDeal) => {
+    setSavedDeals((prev) => prev.map((d) => (d._id === updated._id ? updated : d)));
+    setAnalysis(updated);
+  };
+
+  const removeDeal = async (deal: SavedDeal) => {
+    if (!window.confirm(`Delete the saved ${deal.year} ${deal.make} ${deal.model}? Its notes, comments, share links and price history go with it.`)) return;
+    try {
+      await deleteDeal(deal._id, token!);
+      setSavedDeals((prev) => prev.filter((d) => d._id !== deal._id));
+      setCompareIds((prev) => prev.filter((id) => id !== deal._id));
+      setAnalysis((current) => (current && (current as SavedDeal)._id === deal._id ? null : current));
+    } catch (err) {
+      console.error("Failed to delete deal", err);
+    }
+  };
+
   const handleAuthSuccess = (newToken: string, newUser: { email: string }) => {
     setToken(newToken);
     setUser(newUser);
@@ -116,70 +266,123 @@ export default function App() {
     localStorage.removeItem('user');
     setAnalysis(null);
     setSavedDeals([]);
+    setDealQuery(EMPTY_DEAL_QUERY);
+    setCompareIds([]);
+    setNotifications([]);
+    setWorkspaces([]);
+    setActiveWorkspaceId(null);
   };
 
-  const handleAnalyze = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!url) return;
-    
+  const handleAnalyze = async (source: ListingSource, refresh = false) => {
+    setLastSource(source);
     setIsAnalyzing(true);
     setError(null);
     setAnalysis(null);
     setShowHistory(false);
-    
+    setShowCompare(false);
+    setShowBatch(false);
+    setStageProgress({});
+    setPartialAnalysis({});
+    analysisAbort.current?.abort();
+    const controller = new AbortController();
+    analysisAbort.current = controller;
+
+    const onProgress = (event: AnalysisProgressEvent) => {
+      if (event.type === 'stage') {
+        setStageProgress((prev) => ({ ...prev, [event.stage]: { status: event.status, detail: event.detail } }));
+      } else if (event.type === 'partial') {
+        setPartialAnalysis((prev) => ({ ...prev, ...event.analysis }));
+      }
+    };
+
     try {
-      const result = await analyzeCarListing(url);
-      console.log("Analysis Result:", result);
+      const result = await analyzeListing(source, token!, { refresh, onProgress, signal: controller.signal });
       setAnalysis(result);
     } catch (err: any) {
-      if (err.message?.includes("429") || err.message?.includes("quota")) {
-        setError("API Rate Limit Reached. Please wait about 60 seconds and try again. The free tier has strict limits on how many cars you can analyze per minute.");
-      } else {
-        setError(err.message || "Something went wrong. Please try again.");
+      // Cancelled, or superseded by a newer run
+      if (controller.signal.aborted) return;
+      if (err instanceof ApiError && err.status === 401) {
+        handleLogout();
+        return;
       }
+      setError({
+        message: err.message || "Something went wrong. Please try again.",
+        code: err instanceof ApiError ? err.code : undefined,
+        retryAfterSeconds: err instanceof ApiError ? err.retryAfterSeconds : undefined,
+      });
     } finally {
-      setIsAnalyzing(false);
+      if (analysisAbort.current === controller) {
+        analysisAbort.current = null;
+        setIsAnalyzing(false);
+      }
     }
   };
 
+  const cancelAnalysis = () => {
+    analysisAbort.current?.abort();
+    analysisAbort.current = null;
+    setIsAnalyzing(false);
+  };
+
+  const switchInput = (mode: ListingSource['kind']) => {
+    setInputMode(mode);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const saveDeal = async () => {
     if (!analysis || !token) return;
     setIsSaving(true);
+    setSaveError(null);
     try {
-      const response = await fetch('/api/deals', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          url,
-          make: analysis.make,
-          model: analysis.model,
-          year: analysis.year,
-          price: analysis.price,
-          dealRating: analysis.dealRating,
-          dealScore: analysis.dealScore,
-          negotiationPitch: analysis.negotiationPitch,
-          vin: analysis.vin,
-          vinData: analysis.vinData,
-          summary: analysis.summary,
-          pros: analysis.pros,
-          cons: analysis.cons,
-          redFlags: analysis.redFlags,
-          marketComparison: analysis.marketComparison
-        }),
-      });
-      if (response.ok) {
-        fetchSavedDeals();
-      }
+      // Continue on the saved copy so later edits (TCO, pitch, coach chat) are stored with it
+      setAnalysis(await saveDealRequest(analysis, listingUrl, activeWorkspaceId, token));
+      fetchSavedDeals();
     } catch (err) {
       console.error("Failed to save deal", err);
+      setSaveError(err instanceof ApiError ? err.message : 'Could not save this deal. Please try again.');
     } finally {
       setIsSaving(false);
     }
   };
 
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((existing) => existing !== id)
+        : prev.length < MAX_COMPARE ? [...prev, id] : prev
+    );
+  };
+
+  const handleRewritePitch = async (financing: FinancingInputs) => {
+    if (!analysis) return;
+    const dealId = ownDealId;
+    const result = await rewritePitch(dealId ? { dealId } : { analysis }, financing, token!);
+    setAnalysis((current) => current && { ...current, ...result });
+    if (dealId) {
+      setSavedDeals((prev) => prev.map((d) => (d._id === dealId ? { ...d, ...result } : d)));
+    }
+  };
+
+  // The open analysis, if it is one of the saved deals
+  const openDeal = analysis && '_id' in analysis
+    ? savedDeals.find((deal) => deal._id === (analysis as SavedDeal)._id)
+    : undefined;
+
+  // A saved deal links to its own listing, not to whatever is in the search box now
+  const listingUrl = analysis && '_id' in analysis
+    ? (analysis as SavedDeal).url
+    : analysis?.source ? analysis.source.url ?? '' : url;
+
+  // Teammates' deals are read-only here: the pitch, coach, TCO and share links stay with whoever saved them
+  const ownDealId = analysis && (analysis as SavedDeal).isOwn !== false ? (analysis as SavedDeal)._id : undefined;
+
+  const visibleDeals = applyDealQuery(savedDeals, dealQuery);
+
+  const compareDeals = compareIds
+    .map((id) => savedDeals.find((deal) => deal._id === id))
+    .filter((deal): deal is SavedDeal => Boolean(deal));
+
   const getDealColor = (rating: string) => {
     switch (rating) {
       case 'Great': return 'text-emerald-600 bg-emerald-50 border-emerald-200';
@@ -198,9 +401,9 @@ export default function App() {
   return (
     <div className="min-h-screen font-sans selection:bg-indigo-100 selection:text-indigo-900">
       {/* Header */}
-      <header className="sticky top-0 z-50 glass-card border-b border-zinc-200/50 px-6 py-4">
+      <header className="sticky top-0 z-50 glass-card border-b border-zinc-200/50 px-6 py-4 print:hidden">
         <div className="max-w-7xl mx-auto flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => { setAnalysis(null); setShowHistory(false); }}>
+          <div className="flex items-center gap-2 cursor-pointer" onClick={() => { setAnalysis(null); setShowHistory(false); setShowCompare(false); setShowBatch(false); }}>
             <div className="bg-zinc-900 p-2 rounded-lg">
               <Car className="w-6 h-6 text-white" />
             </div>
@@ -210,11 +413,16 @@ export default function App() {
           </div>
           <div className="flex items-center gap-4">
             <button 
-              onClick={() => setShowHistory(!showHistory)}
+              onClick={() => { setShowHistory(!showHistory); setShowCompare(false); setShowBatch(false); }}
               className="flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 transition-colors"
             >
               <History className="w-4 h-4" />
               History
+              {notifications.some((n) => !n.readAt) && (
+                <span className="min-w-4 h-4 px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+                  {notifications.filter((n) => !n.readAt).length}
+                </span>
+              )}
             </button>
             <div className="h-4 w-px bg-zinc-200 mx-2" />
             <div className="flex items-center gap-3">
@@ -231,7 +439,7 @@ export default function App() {
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto px-6 py-12">
+      <main className="max-w-7xl mx-auto px-6 py-12 print:hidden">
         {/* Hero Section */}
         <section className="text-center mb-16">
           <motion.h2 
@@ -243,41 +451,21 @@ export default function App() {
             Avoid the <span className="text-rose-500 underline decoration-rose-200 underline-offset-8">lemons</span>.
           </motion.h2>
           
-          <motion.form 
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.2 }}
-            onSubmit={handleAnalyze}
-            className="max-w-3xl mx-auto relative group"
+          <ListingInput
+            mode={inputMode}
+            onModeChange={setInputMode}
+            url={url}
+            onUrlChange={setUrl}
+            isAnalyzing={isAnalyzing}
+            onSubmit={(source) => handleAnalyze(source)}
+          />
+          <button
+            onClick={() => { setShowBatch(!showBatch); setShowHistory(false); setShowCompare(false); setAnalysis(null); }}
+            className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-zinc-400 hover:text-zinc-900 transition-colors"
           >
-            <div className="relative flex items-center">
-              <div className="absolute left-5 text-zinc-400 group-focus-within:text-zinc-900 transition-colors">
-                <Search className="w-5 h-5" />
-              </div>
-              <input 
-                type="url" 
-                required
-                placeholder="Paste car listing URL here..."
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                className="w-full pl-14 pr-36 py-5 bg-white border-2 border-zinc-200 rounded-2xl focus:outline-none focus:border-zinc-900 transition-all text-lg shadow-sm"
-              />
-              <button 
-                type="submit"
-                disabled={isAnalyzing}
-                className="absolute right-3 px-6 py-3 bg-zinc-900 text-white rounded-xl font-medium hover:bg-zinc-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-              >
-                {isAnalyzing ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  <>
-                    Analyze
-                    <ArrowRight className="w-4 h-4" />
-                  </>
-                )}
-              </button>
-            </div>
-          </motion.form>
+            <Layers className="w-4 h-4" />
+            {showBatch ? 'Back to single listing' : 'Have a lot of links? Analyze them in a batch'}
+          </button>
         </section>
 
         {/* History View */}
@@ -291,16 +479,72 @@ export default function App() {
             >
               <div className="flex items-center justify-between">
                 <h3 className="font-display text-2xl font-bold">Saved Analysis</h3>
-                <span className="text-sm text-zinc-400">{savedDeals.length} deals saved</span>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-zinc-400">
+                    {visibleDeals.length < savedDeals.length && `${visibleDeals.length} of `}
+                    {savedDeals.length} deals saved{activeWorkspaceId !== null && ' by your team'}
+                  </span>
+                  <button
+                    onClick={() => { setShowCompare(true); setShowHistory(false); }}
+                    disabled={compareDeals.length < 2}
+                    className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold hover:bg-zinc-800 transition-all disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-2"
+                    title={compareDeals.length < 2 ? `Select 2-${MAX_COMPARE} deals to compare` : undefined}
+                  >
+                    <Columns3 className="w-4 h-4" />
+                    Compare ({compareDeals.length})
+                  </button>
+                </div>
               </div>
+              <WorkspaceSwitcher
+                token={token}
+                workspaces={workspaces}
+                activeWorkspaceId={activeWorkspaceId}
+                onSelect={selectWorkspace}
+                onWorkspacesChange={loadWorkspaces}
+              />
+              <WatchNotifications notifications={notifications} onMarkAllRead={markAllNotificationsRead} />
+              {savedDeals.length > 0 && (
+                <DealFilters query={dealQuery} onChange={setDealQuery} tags={collectTags(savedDeals)} />
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {savedDeals.map((deal) => (
-                  <div key={deal._id} className="glass-card rounded-3xl p-6 hover:border-zinc-900 transition-all group">
+                {visibleDeals.map((deal) => (
+                  <div key={deal._id} className={cn(
+                    "glass-card rounded-3xl p-6 hover:border-zinc-900 transition-all group",
+                    compareIds.includes(deal._id) && "border-zinc-900 ring-2 ring-zinc-900/10"
+                  )}>
                     <div className="flex justify-between items-start mb-4">
-                      <div>
-                        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{deal.year} {deal.make}</span>
-                        <h4 className="font-display font-bold text-lg">{deal.model}</h4>
-                      </div>
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(deal._id)}
+                          onChange={() => toggleCompare(deal._id)}
+                          disabled={!compareIds.includes(deal._id) && compareIds.length >= MAX_COMPARE}
+                          className="mt-1 w-4 h-4 accent-zinc-900"
+                          title="Select to compare"
+                        />
+                        <div>
+                          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{deal.year} {deal.make}</span>
+                          <h4 className="font-display font-bold text-lg">{deal.model}</h4>
+                          {activeWorkspaceId !== null && (
+                            <span className="text-xs text-zinc-400">Saved by {deal.isOwn ? 'you' : deal.savedBy}</span>
+                          )}
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            <span className="px-2 py-0.5 bg-zinc-900 text-white rounded-md text-[10px] font-bold uppercase tracking-wider">
+                              {DEAL_STATUS_LABELS[deal.status ?? 'considering']}
+                            </span>
+                            {deal.tags?.map((tag) => (
+                              <button
+                                key={tag}
+                                onClick={(e) => { e.preventDefault(); setDealQuery({ ...dealQuery, tag }); }}
+                                className="px-2 py-0.5 bg-zinc-100 rounded-md text-[10px] font-medium text-zinc-500 hover:text-zinc-900"
+                                title="Show deals with this tag"
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      </label>
                       <div className={cn(
                         "px-2 py-1 rounded-lg text-[10px] font-bold uppercase",
                         getDealColor(deal.dealRating)
@@ -309,16 +553,86 @@ export default function App() {
                       </div>
                     </div>
                     <div className="flex items-center justify-between mt-6">
-                      <span className="text-xl font-bold">${deal.price.toLocaleString()}</span>
-                      <button 
-                        onClick={() => { 
-                          setAnalysis(deal); 
-                          setShowHistory(false); 
-                        }}
-                        className="p-2 bg-zinc-100 rounded-xl hover:bg-zinc-900 hover:text-white transition-all"
-                      >
-                        <ArrowRight className="w-4 h-4" />
-                      </button>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xl font-bold">${deal.price.toLocaleString()}</span>
+                        {deal.priceHistory && <PriceSparkline history={deal.priceHistory} />}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {deal.isOwn !== false && (
+                          <button
+                            onClick={() => toggleWatch(deal)}
+                            disabled={!deal.url}
+                            className={cn(
+                              "p-2 rounded-xl transition-all disabled:opacity-30 disabled:cursor-not-allowed",
+                              deal.watched ? "bg-zinc-900 text-white hover:bg-zinc-700" : "bg-zinc-100 text-zinc-500 hover:text-zinc-900"
+                          )}
+                          title={!deal.url ? "Only deals with a listing URL can be watched" : deal.watched ? "Stop watching for price changes" : "Watch for price drops and relistings"}
+                        >
+                          {deal.watched ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                        </button>
+                        )}
+                        {deal.isOwn !== false && (
+                          <button
+                            onClick={() => removeDeal(deal)}
+                            className="p-2 bg-zinc-100 text-zinc-500 rounded-xl hover:bg-rose-50 hover:text-rose-600 transition-all"
+                            title="Delete this saved deal"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button 
+                          onClick={() => { 
+                            setAnalysis(deal); 
+                            setShowHistory(false); 
+                          }}
+                          className="p-2 bg-zinc-100 rounded-xl hover:bg-zinc-900 hover:text-white transition-all"
+                        >
+                          <ArrowRight className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t border-zinc-100">
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => vote(deal, 1)}
+                          className={cn(
+                            "px-2 py-1 rounded-lg text-xs font-bold flex items-center gap-1 transition-all",
+                            deal.votes?.mine === 1 ? "bg-emerald-50 text-emerald-700" : "text-zinc-400 hover:text-zinc-900"
+                          )}
+                          title="Thumbs up"
+                        >
+                          <ThumbsUp className="w-3.5 h-3.5" />
+                          {deal.votes?.up ?? 0}
+                        </button>
+                        <button
+                          onClick={() => vote(deal, -1)}
+                          className={cn(
+                            "px-2 py-1 rounded-lg text-xs font-bold flex items-center gap-1 transition-all",
+                            deal.votes?.mine === -1 ? "bg-rose-50 text-rose-700" : "text-zinc-400 hover:text-zinc-900"
+                          )}
+                          title="Thumbs down"
+                        >
+                          <ThumbsDown className="w-3.5 h-3.5" />
+                          {deal.votes?.down ?? 0}
+                        </button>
+                        <span className="px-2 py-1 text-xs font-bold text-zinc-400 flex items-center gap-1" title="Comments">
+                          <MessageCircle className="w-3.5 h-3.5" />
+                          {deal.commentCount ?? 0}
+                        </span>
+                      </div>
+                      {deal.isOwn !== false && workspaces.length > 0 && (
+                        <select
+                          value={deal.workspaceId ?? ''}
+                          onChange={(e) => moveDeal(deal, e.target.value ? Number(e.target.value) : null)}
+                          className="px-2 py-1 bg-zinc-50 border border-zinc-200 rounded-lg text-xs text-zinc-500 focus:outline-none"
+                          title="Move this deal"
+                        >
+                          <option value="">Personal</option>
+                          {workspaces.map((workspace) => (
+                            <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                          ))}
+                        </select>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -328,59 +642,52 @@ export default function App() {
                     <p className="text-zinc-400 font-medium">No saved deals yet. Analyze a listing to save it.</p>
                   </div>
                 )}
+                {savedDeals.length > 0 && visibleDeals.length === 0 && (
+                  <div className="col-span-full py-12 text-center border-2 border-dashed border-zinc-200 rounded-3xl">
+                    <p className="text-zinc-400 font-medium">No saved deals match these filters.</p>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Batch View */}
+        <AnimatePresence>
+          {showBatch && (
+            <BatchAnalyzer
+              token={token}
+              onOpen={(result, resultUrl) => { setUrl(resultUrl); setLastSource({ kind: 'url', url: resultUrl }); setAnalysis(result); }}
+            />
+          )}
+        </AnimatePresence>
+
+        {/* Compare View */}
+        <AnimatePresence>
+          {showCompare && compareDeals.length > 0 && (
+            <CompareView
+              deals={compareDeals}
+              onOpen={(deal) => { setAnalysis(deal); setShowCompare(false); }}
+              onRemove={toggleCompare}
+              onClose={() => { setShowCompare(false); setShowHistory(true); }}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Loading State */}
         <AnimatePresence>
           {isAnalyzing && (
-            <motion.div 
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.95 }}
-              className="flex flex-col items-center justify-center py-20"
-            >
-              <div className="relative w-24 h-24 mb-6">
-                <div className="absolute inset-0 border-4 border-zinc-100 rounded-full"></div>
-                <div className="absolute inset-0 border-4 border-zinc-900 rounded-full border-t-transparent animate-spin"></div>
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <Car className="w-8 h-8 text-zinc-900" />
-                </div>
-              </div>
-              <motion.p 
-                key={loadingMsgIndex}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                className="text-zinc-500 font-medium"
-              >
-                {LOADING_MESSAGES[loadingMsgIndex]}
-              </motion.p>
-            </motion.div>
+            <AnalysisProgress stages={stageProgress} partial={partialAnalysis} onCancel={cancelAnalysis} />
           )}
         </AnimatePresence>
 
         {/* Error State */}
         {error && (
-          <motion.div 
-            initial={{ opacity: 0, y: 10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="max-w-xl mx-auto p-6 bg-rose-50 border border-rose-200 rounded-3xl flex flex-col items-center gap-4 text-center"
-          >
-            <div className="flex items-start gap-3 text-rose-700">
-              <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
-              <p className="text-sm font-medium">{error}</p>
-            </div>
-            <button 
-              onClick={handleAnalyze}
-              className="px-6 py-2 bg-rose-600 text-white rounded-xl font-bold hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 flex items-center gap-2"
-            >
-              <Loader2 className={`w-4 h-4 ${isAnalyzing ? 'animate-spin' : ''}`} />
-              Try Again
-            </button>
-          </motion.div>
+          <AnalysisErrorPanel
+            failure={error}
+            onRetry={() => lastSource && handleAnalyze(lastSource)}
+            onSwitchInput={switchInput}
+          />
         )}
 
         {/* Results Section */}
@@ -391,42 +698,66 @@ export default function App() {
               animate={{ opacity: 1, y: 0 }}
               className="space-y-8"
             >
+              {/* Cached or fresh, and what changed since last time */}
+              <CacheNotice
+                analysis={analysis}
+                onRefresh={() => lastSource && handleAnalyze(lastSource, true)}
+                isRefreshing={isAnalyzing}
+              />
+
               {/* Main Header & Deal Badge */}
               <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
                 <div>
                   <div className="flex items-center gap-3 mb-2">
                     <span className="text-zinc-500 font-mono text-sm uppercase tracking-wider">{analysis.year} {analysis.make}</span>
+                    <SourceBadge source={analysis.sources?.year} />
                     <span className="px-2 py-0.5 bg-zinc-100 text-zinc-600 text-xs font-bold rounded uppercase">{analysis.condition}</span>
+                    {analysis.source && analysis.source.kind !== 'url' && (
+                      <span className="px-2 py-0.5 bg-indigo-50 text-indigo-600 text-xs font-bold rounded uppercase flex items-center gap-1">
+                        {analysis.source.kind === 'text' ? <FileText className="w-3 h-3" /> : <ImageIcon className="w-3 h-3" />}
+                        {analysis.source.kind === 'text'
+                          ? 'From pasted text'
+                          : `From ${analysis.source.imageCount} screenshot${analysis.source.imageCount === 1 ? '' : 's'}`}
+                      </span>
+                    )}
                   </div>
                   <h3 className="font-display text-4xl font-bold tracking-tight">{analysis.model}</h3>
                   <div className="flex items-center gap-4 mt-4 text-zinc-500">
                     <div className="flex items-center gap-1.5">
                       <MapPin className="w-4 h-4" />
                       <span className="text-sm">{analysis.location}</span>
+                      <SourceBadge source={analysis.sources?.location} />
                     </div>
                     <div className="flex items-center gap-1.5">
                       <Gauge className="w-4 h-4" />
                       <span className="text-sm">{analysis.mileage.toLocaleString()} miles</span>
+                      <SourceBadge source={analysis.sources?.mileage} />
                     </div>
                   </div>
                 </div>
 
-                <div className="flex flex-col items-end gap-2">
-                  <div className={cn(
-                    "px-6 py-3 rounded-2xl border-2 flex items-center gap-3",
-                    getDealColor(analysis.dealRating)
-                  )}>
-                    <div className="flex flex-col">
-                      <span className="text-[10px] font-bold uppercase tracking-widest opacity-70">Deal Rating</span>
-                      <span className="text-xl font-bold">{analysis.dealRating} Deal</span>
+                <div className="flex flex-col sm:flex-row sm:items-end gap-6">
+                  {analysis.scoreBreakdown && (
+                    <ScoreBreakdown breakdown={analysis.scoreBreakdown} />
+                  )}
+                  <div className="flex flex-col items-end gap-2">
+                    <div className={cn(
+                      "px-6 py-3 rounded-2xl border-2 flex items-center gap-3",
+                      getDealColor(analysis.dealRating)
+                    )}>
+                      <div className="flex flex-col">
+                        <span className="text-[10px] font-bold uppercase tracking-widest opacity-70">Deal Rating</span>
+                        <span className="text-xl font-bold">{analysis.dealRating} Deal</span>
+                      </div>
+                      <div className="w-10 h-10 rounded-full bg-white/50 flex items-center justify-center font-bold text-lg">
+                        {analysis.dealScore}
+                      </div>
                     </div>
-                    <div className="w-10 h-10 rounded-full bg-white/50 flex items-center justify-center font-bold text-lg">
-                      {analysis.dealScore}
+                    <div className="text-3xl font-display font-bold flex items-center gap-2">
+                      <SourceBadge source={analysis.sources?.price} />
+                      ${analysis.price.toLocaleString()}
                     </div>
                   </div>
-                  <div className="text-3xl font-display font-bold">
-                    ${analysis.price.toLocaleString()}
-                  </div>
                 </div>
               </div>
 
@@ -477,6 +808,13 @@ export default function App() {
                     </div>
                   </div>
 
+                  {/* Price Targets, fed into the pitch below */}
+                  <FinancingPanel
+                    key={`${(analysis as SavedDeal)._id ?? 'new'}:${analysis.year} ${analysis.make} ${analysis.model}:${analysis.price}`}
+                    analysis={analysis}
+                    onRewritePitch={handleRewritePitch}
+                  />
+
                   {/* Negotiation Pitch Card */}
                   <div className="glass-card rounded-3xl p-8 border-indigo-100 bg-indigo-50/10">
                     <h4 className="font-display text-lg font-bold mb-6 flex items-center gap-2">
@@ -502,6 +840,15 @@ export default function App() {
                     </div>
                   </div>
 
+                  {/* Negotiation Coach Chat */}
+                  <NegotiationCoach
+                    token={token}
+                    dealId={ownDealId}
+                    onSaveDeal={saveDeal}
+                    isSaving={isSaving}
+                    saveError={saveError}
+                  />
+
                   {/* VIN Report Card */}
                   {analysis.vin && (
                     <div className="glass-card rounded-3xl p-8 border-zinc-200">
@@ -510,11 +857,41 @@ export default function App() {
                           <Fingerprint className="w-5 h-5 text-zinc-400" />
                           Vehicle Identity Report
                         </h4>
-                        <span className="text-xs font-mono bg-zinc-100 px-3 py-1 rounded-full text-zinc-600">
-                          VIN: {analysis.vin}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          {analysis.vinData?.vinCheck && (
+                            <span className={cn(
+                              "text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full flex items-center gap-1",
+                              analysis.vinData.vinCheck.valid
+                                ? "bg-emerald-50 text-emerald-700"
+                                : "bg-rose-50 text-rose-700"
+                            )}>
+                              {analysis.vinData.vinCheck.valid ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                              {analysis.vinData.vinCheck.valid ? 'Check digit valid' : 'Invalid VIN'}
+                            </span>
+                          )}
+                          <span className="text-xs font-mono bg-zinc-100 px-3 py-1 rounded-full text-zinc-600">
+                            VIN: {analysis.vin}
+                          </span>
+                          <SourceBadge source={analysis.sources?.vin} />
+                        </div>
                       </div>
 
+                      {analysis.vinData?.vinCheck && (analysis.vinData.vinCheck.errors.length > 0 || analysis.vinData.vinCheck.mismatches.length > 0) && (
+                        <div className="mb-8 p-4 bg-rose-50 border border-rose-100 rounded-2xl space-y-2">
+                          {[...analysis.vinData.vinCheck.errors, ...analysis.vinData.vinCheck.mismatches].map((problem, i) => (
+                            <div key={i} className="flex items-start gap-2 text-xs text-rose-800 font-medium">
+                              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5 text-rose-500" />
+                              {problem}
+                            </div>
+                          ))}
+                          {!analysis.vinData.vinCheck.valid && (
+                            <p className="text-[10px] text-rose-600 pl-5.5">
+                              Factory data and recalls were not looked up because this VIN cannot be trusted.
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
                         {/* Factory Specs */}
                         <div className="space-y-4">
@@ -525,11 +902,15 @@ export default function App() {
                           <div className="bg-zinc-50 rounded-2xl p-6 space-y-4">
                             <div className="flex justify-between items-center border-bottom border-zinc-100 pb-2">
                               <span className="text-sm text-zinc-500">Manufacturer</span>
-                              <span className="text-sm font-medium">{analysis.vinData?.manufacturer || 'N/A'}</span>
+                              <span className="text-sm font-medium">{analysis.vinData?.manufacturer || analysis.vinData?.vinCheck?.decoded?.manufacturer || 'N/A'}</span>
+                            </div>
+                            <div className="flex justify-between items-center border-bottom border-zinc-100 pb-2">
+                              <span className="text-sm text-zinc-500">Model Year (VIN)</span>
+                              <span className="text-sm font-medium">{analysis.vinData?.vinCheck?.decoded?.modelYear || 'N/A'}</span>
                             </div>
                             <div className="flex justify-between items-center border-bottom border-zinc-100 pb-2">
                               <span className="text-sm text-zinc-500">Assembly Plant</span>
-                              <span className="text-sm font-medium">{analysis.vinData?.plantCountry || 'N/A'}</span>
+                              <span className="text-sm font-medium">{analysis.vinData?.plantCountry || analysis.vinData?.vinCheck?.decoded?.country || 'N/A'}</span>
                             </div>
                             <div className="flex justify-between items-center border-bottom border-zinc-100 pb-2">
                               <span className="text-sm text-zinc-500">Body Class</span>
@@ -548,29 +929,10 @@ export default function App() {
                             <AlertTriangle className="w-4 h-4" />
                             Safety Recalls
                           </h5>
-                          <div className="space-y-3">
-                            {analysis.vinData?.recalls && analysis.vinData.recalls.length > 0 ? (
-                              analysis.vinData.recalls.slice(0, 3).map((recall, i) => (
-                                <div key={i} className="p-4 bg-rose-50 border border-rose-100 rounded-2xl">
-                                  <div className="flex items-center gap-2 text-rose-700 font-bold text-xs mb-1">
-                                    <ShieldAlert className="w-3 h-3" />
-                                    {recall.NHTSACampaignNumber}
-                                  </div>
-                                  <p className="text-xs text-rose-800 line-clamp-2">{recall.Summary}</p>
-                                </div>
-                              ))
-                            ) : (
-                              <div className="p-6 bg-emerald-50 border border-emerald-100 rounded-2xl flex items-center gap-3 text-emerald-700">
-                                <CheckCircle2 className="w-5 h-5" />
-                                <span className="text-sm font-medium">No active recalls found</span>
-                              </div>
-                            )}
-                            {analysis.vinData?.recalls && analysis.vinData.recalls.length > 3 && (
-                              <p className="text-center text-[10px] text-zinc-400">
-                                + {analysis.vinData.recalls.length - 3} more recalls found
-                              </p>
-                            )}
-                          </div>
+                          <RecallPanel
+                            recalls={analysis.vinData?.recalls || []}
+                            excluded={analysis.vinData?.excludedRecalls}
+                          />
                         </div>
                       </div>
 
@@ -581,6 +943,7 @@ export default function App() {
                             <h5 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
                               <ShieldAlert className="w-4 h-4" />
                               Title Status
+                              <SourceBadge source={analysis.sources?.['vinData.titleStatus']} />
                             </h5>
                             <div className={`p-4 rounded-2xl border flex items-center gap-3 ${
                               analysis.vinData?.titleStatus?.toLowerCase().includes('clean') 
@@ -595,6 +958,7 @@ export default function App() {
                             <h5 className="text-sm font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
                               <History className="w-4 h-4" />
                               Accident & Damage Records
+                              <SourceBadge source={analysis.sources?.['vinData.accidentHistory']} />
                             </h5>
                             <div className="p-4 bg-zinc-50 rounded-2xl text-sm text-zinc-600 leading-relaxed">
                               {analysis.vinData?.accidentHistory || "No public accident records found via automated search. Always verify with a professional vehicle history report (e.g., Carfax)."}
@@ -611,6 +975,7 @@ export default function App() {
                       <h4 className="font-display text-lg font-bold flex items-center gap-2">
                         <TrendingUp className="w-5 h-5 text-zinc-400" />
                         Market Comparison
+                        <SourceBadge source={analysis.sources?.marketComparison} />
                       </h4>
                       <span className="text-xs font-medium text-zinc-400 bg-zinc-100 px-2 py-1 rounded">
                         Based on {analysis.marketComparison.similarCarsCount} similar listings
@@ -663,41 +1028,46 @@ export default function App() {
                       </ResponsiveContainer>
                     </div>
                   </div>
+
+                  {/* Total Cost of Ownership */}
+                  <TcoPanel
+                    analysis={analysis}
+                    onChange={(tco) => setAnalysis({ ...analysis, tco })}
+                    savedInputs={openDeal?.tco?.inputs}
+                    onSave={openDeal?.isOwn ? (inputs) => saveTco(openDeal._id, inputs) : undefined}
+                  />
                 </div>
 
                 {/* Right Column: Red Flags & Actions */}
                 <div className="space-y-8">
                   {/* Red Flags Card */}
-                  <div className={cn(
-                    "glass-card rounded-3xl p-8 border-2",
-                    analysis.redFlags.length > 0 ? "border-rose-200 bg-rose-50/20" : "border-emerald-100 bg-emerald-50/20"
-                  )}>
-                    <h4 className="font-display text-lg font-bold mb-6 flex items-center gap-2">
-                      <ShieldAlert className={cn(
-                        "w-5 h-5",
-                        analysis.redFlags.length > 0 ? "text-rose-500" : "text-emerald-500"
-                      )} />
-                      Red Flags & Warnings
-                    </h4>
-                    
-                    {analysis.redFlags.length > 0 ? (
-                      <div className="space-y-4">
-                        {analysis.redFlags.map((flag, i) => (
-                          <div key={i} className="flex items-start gap-3 p-3 bg-white rounded-xl border border-rose-100 shadow-sm">
-                            <AlertTriangle className="w-4 h-4 text-rose-500 shrink-0 mt-0.5" />
-                            <p className="text-sm text-zinc-700 font-medium leading-tight">{flag}</p>
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="text-center py-6">
-                        <div className="w-12 h-12 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                          <CheckCircle2 className="w-6 h-6 text-emerald-600" />
-                        </div>
-                        <p className="text-sm text-emerald-800 font-medium">No major red flags detected in the listing description.</p>
-                      </div>
-                    )}
-                  </div>
+                  <RedFlagsCard analysis={analysis} />
+
+                  {/* Status, Tags & Private Notes */}
+                  {openDeal?.isOwn && (
+                    <DealNotes deal={openDeal} onSave={(patch) => saveDealDetails(openDeal._id, patch)} />
+                  )}
+
+                  {/* Analysis History */}
+                  {openDeal && (
+                    <DealVersions
+                      token={token}
+                      deal={openDeal}
+                      onReanalyzed={openDeal.isOwn ? showReanalyzed : undefined}
+                    />
+                  )}
+
+                  {/* Share Links, saved deals only */}
+                  {openDeal?.isOwn && <SharePanel token={token} dealId={openDeal._id} />}
+
+                  {/* Team Discussion */}
+                  {openDeal && (
+                    <DealComments
+                      token={token}
+                      dealId={openDeal._id}
+                      onCountChange={(count) => setCommentCount(openDeal._id, count)}
+                    />
+                  )}
 
                   {/* Action Card */}
                   <div className="bg-zinc-900 rounded-3xl p-8 text-white">
@@ -706,23 +1076,46 @@ export default function App() {
                       Always inspect the vehicle in person and get a pre-purchase inspection (PPI) before finalizing any deal.
                     </p>
                     <div className="space-y-3">
-                      <a 
-                        href={url} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="w-full py-4 bg-white text-zinc-900 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-zinc-100 transition-colors"
-                      >
-                        View Original Listing
-                        <ExternalLink className="w-4 h-4" />
-                      </a>
+                      {listingUrl && (
+                        <a 
+                          href={listingUrl} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="w-full py-4 bg-white text-zinc-900 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-zinc-100 transition-colors"
+                        >
+                          View Original Listing
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      )}
                       <button 
                         onClick={saveDeal}
                         disabled={isSaving}
                         className="w-full py-4 bg-zinc-800 text-white rounded-2xl font-bold border border-zinc-700 hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2"
                       >
                         {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bookmark className="w-4 h-4" />}
-                        Save to Favorites
+                        {activeWorkspaceId !== null
+                          ? `Save to ${workspaces.find((w) => w.id === activeWorkspaceId)?.name ?? 'Workspace'}`
+                          : 'Save to Favorites'}
                       </button>
+                      {saveError && <p className="text-xs text-rose-400 font-medium text-center">{saveError}</p>}
+                      <div className="grid grid-cols-2 gap-3">
+                        <button
+                          onClick={() => printAnalysisReport(analysis)}
+                          className="py-3 bg-zinc-800 text-white rounded-2xl text-sm font-bold border border-zinc-700 hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2"
+                          title="Print the full report or save it as a PDF"
+                        >
+                          <FileDown className="w-4 h-4" />
+                          Download report
+                        </button>
+                        <button
+                          onClick={() => downloadAnalysisJson(analysis)}
+                          className="py-3 bg-zinc-800 text-white rounded-2xl text-sm font-bold border border-zinc-700 hover:bg-zinc-700 transition-colors flex items-center justify-center gap-2"
+                          title="Download the analysis as JSON"
+                        >
+                          <Braces className="w-4 h-4" />
+                          Export JSON
+                        </button>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -732,7 +1125,7 @@ export default function App() {
         </AnimatePresence>
 
         {/* Empty State */}
-        {!analysis && !isAnalyzing && !error && !showHistory && (
+        {!analysis && !isAnalyzing && !error && !showHistory && !showCompare && !showBatch && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -768,14 +1161,14 @@ export default function App() {
       </main>
 
       {/* Footer */}
-      <footer className="border-t border-zinc-200 mt-20 py-12 px-6">
+      <footer className="border-t border-zinc-200 mt-20 py-12 px-6 print:hidden">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row items-center justify-between gap-8">
           <div className="flex items-center gap-2 opacity-50">
             <Car className="w-5 h-5" />
             <span className="font-display font-bold text-sm tracking-tight">CarDealScout</span>
           </div>
           <div className="text-zinc-400 text-xs">
-            © 2026 CarDeal Scout. Built with Gemini AI & MongoDB.
+            © 2026 CarDeal Scout. Built with Gemini AI & SQLite.
           </div>
           <div className="flex gap-6 text-zinc-400 text-xs font-medium">
             <a href="#" className="hover:text-zinc-900">Privacy</a>
@@ -784,6 +1177,9 @@ export default function App() {
           </div>
         </div>
       </footer>
+
+      {/* Print-only report, see "Download report" */}
+      {analysis && <DealReport analysis={analysis} />}
     </div>
   );
 }
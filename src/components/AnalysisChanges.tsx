@@ -0,0 +1,50 @@
+import { ArrowRight } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { AnalysisChange } from '../types';
+
+interface AnalysisChangesProps {
+  changes: AnalysisChange[];
+}
+
+const PRICE_FIELDS = ['price', 'marketComparison.averagePrice', 'marketComparison.lowPrice', 'marketComparison.highPrice'];
+
+function formatValue(change: AnalysisChange, value: AnalysisChange['before']): string {
+  if (value === null) return '—';
+  if (typeof value === 'number' && PRICE_FIELDS.includes(change.field)) return `$${value.toLocaleString()}`;
+  if (typeof value === 'number' && change.field === 'mileage') return `${value.toLocaleString()} mi`;
+  return typeof value === 'number' ? value.toLocaleString() : value;
+}
+
+/** Field changes as before → after, then red flags raised or cleared, between two analyses of one car. */
+export default function AnalysisChanges({ changes }: AnalysisChangesProps) {
+  const fieldChanges = changes.filter((change) => change.field !== 'redFlags');
+  const flagChanges = changes.filter((change) => change.field === 'redFlags');
+
+  if (changes.length === 0) return <p className="text-sm text-zinc-500">Nothing changed.</p>;
+
+  return (
+    <>
+      {fieldChanges.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+          {fieldChanges.map((change) => (
+            <div key={change.field} className="flex items-center gap-2 text-sm">
+              <span className="text-zinc-500 w-32 shrink-0">{change.label}</span>
+              <span className="text-zinc-400 line-through">{formatValue(change, change.before)}</span>
+              <ArrowRight className="w-3 h-3 text-zinc-300 shrink-0" />
+              <span className="font-bold">{formatValue(change, change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {flagChanges.length > 0 && (
+        <ul className="space-y-1">
+          {flagChanges.map((change, i) => (
+            <li key={i} className={cn("text-sm", change.after ? "text-rose-700" : "text-emerald-700")}>
+              <span className="font-bold">{change.label}:</span> {change.after ?? change.before}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, Clock, FileText, ImagePlus, RotateCcw } from 'lucide-react';
+import type { AnalysisErrorCode, ListingSource } from '../types';
+
+export interface AnalysisFailure {
+  message: string;
+  code?: AnalysisErrorCode;
+  retryAfterSeconds?: number;
+}
+
+interface AnalysisErrorPanelProps {
+  failure: AnalysisFailure;
+  onRetry: () => void;
+  /** Sends the user to another way of giving us the listing. */
+  onSwitchInput: (mode: ListingSource['kind']) => void;
+}
+
+const HINTS: Partial<Record<AnalysisErrorCode, string>> = {
+  rate_limited: 'The AI provider is throttling requests. Retrying now would fail the same way.',
+  quota_exceeded: 'You have used this hour\'s analyses. Cached results still load instantly.',
+  listing_unreachable: 'The listing page could not be opened. Pasting its text or screenshots works even when the site blocks us.',
+  model_output_invalid: 'The AI answered, but not with a usable analysis. A second run usually works.',
+  upstream_timeout: 'A service we rely on was too slow. Pasting the listing text skips the slowest step.',
+};
+
+/** The failure, plus the way forward that fits it. */
+export default function AnalysisErrorPanel({ failure, onRetry, onSwitchInput }: AnalysisErrorPanelProps) {
+  const [waitSeconds, setWaitSeconds] = useState(failure.retryAfterSeconds ?? 0);
+
+  useEffect(() => {
+    setWaitSeconds(failure.retryAfterSeconds ?? 0);
+  }, [failure]);
+
+  useEffect(() => {
+    if (waitSeconds <= 0) return;
+    const timer = setTimeout(() => setWaitSeconds((prev) => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [waitSeconds]);
+
+  const offerOtherInput = failure.code === 'listing_unreachable' || failure.code === 'upstream_timeout';
+  const hint = failure.code && HINTS[failure.code];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-xl mx-auto p-6 bg-rose-50 border border-rose-200 rounded-3xl flex flex-col items-center gap-4 text-center"
+    >
+      <div className="flex items-start gap-3 text-rose-700">
+        <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+        <div className="text-left">
+          <p className="text-sm font-medium">{failure.message}</p>
+          {hint && <p className="text-xs text-rose-600/80 mt-1">{hint}</p>}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          onClick={onRetry}
+          disabled={waitSeconds > 0}
+          className="px-6 py-2 bg-rose-600 text-white rounded-xl font-bold hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {waitSeconds > 0 ? <Clock className="w-4 h-4" /> : <RotateCcw className="w-4 h-4" />}
+          {waitSeconds > 0 ? `Try again in ${waitSeconds}s` : 'Try Again'}
+        </button>
+        {offerOtherInput && (
+          <>
+            <button
+              onClick={() => onSwitchInput('text')}
+              className="px-4 py-2 bg-white text-rose-700 border border-rose-200 rounded-xl font-bold hover:bg-rose-100 transition-all flex items-center gap-2"
+            >
+              <FileText className="w-4 h-4" />
+              Paste listing text
+            </button>
+            <button
+              onClick={() => onSwitchInput('images')}
+              className="px-4 py-2 bg-white text-rose-700 border border-rose-200 rounded-xl font-bold hover:bg-rose-100 transition-all flex items-center gap-2"
+            >
+              <ImagePlus className="w-4 h-4" />
+              Upload screenshots
+            </button>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
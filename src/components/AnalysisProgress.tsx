@@ -0,0 +1,107 @@
+import { motion } from 'motion/react';
+import { Car, CheckCircle2, Circle, Gauge, Loader2, MapPin, MinusCircle, X, XCircle } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { AnalysisStage, AnalysisStageStatus, CarAnalysis } from '../types';
+
+export type StageProgress = Partial<Record<AnalysisStage, { status: AnalysisStageStatus; detail?: string }>>;
+
+interface AnalysisProgressProps {
+  stages: StageProgress;
+  partial: Partial<CarAnalysis>;
+  onCancel: () => void;
+}
+
+const STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'listing', label: 'Reading the listing' },
+  { stage: 'extraction', label: 'Analyzing with AI and market search' },
+  { stage: 'vin', label: 'Decoding the VIN' },
+  { stage: 'recalls', label: 'Checking NHTSA recalls' },
+  { stage: 'scoring', label: 'Scoring the deal' },
+];
+
+const STATUS_ICONS: Record<AnalysisStageStatus | 'pending', { icon: typeof Circle; className: string }> = {
+  pending: { icon: Circle, className: 'text-zinc-200' },
+  running: { icon: Loader2, className: 'text-zinc-900 animate-spin' },
+  done: { icon: CheckCircle2, className: 'text-emerald-500' },
+  failed: { icon: XCircle, className: 'text-rose-500' },
+  skipped: { icon: MinusCircle, className: 'text-zinc-300' },
+};
+
+/** Live pipeline stages, plus whatever is already known about the car. */
+export default function AnalysisProgress({ stages, partial, onCancel }: AnalysisProgressProps) {
+  const hasHeader = Boolean(partial.make || partial.model);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="max-w-xl mx-auto py-12 space-y-8"
+    >
+      {hasHeader ? (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="glass-card rounded-3xl p-6">
+          <span className="text-zinc-500 font-mono text-sm uppercase tracking-wider">
+            {partial.year} {partial.make}
+          </span>
+          <div className="flex items-end justify-between gap-4">
+            <h3 className="font-display text-3xl font-bold tracking-tight">{partial.model}</h3>
+            {partial.price !== undefined && (
+              <span className="text-2xl font-bold">${partial.price.toLocaleString()}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-4 mt-3 text-sm text-zinc-500">
+            {partial.mileage !== undefined && (
+              <span className="flex items-center gap-1"><Gauge className="w-4 h-4" />{partial.mileage.toLocaleString()} mi</span>
+            )}
+            {partial.location && (
+              <span className="flex items-center gap-1"><MapPin className="w-4 h-4" />{partial.location}</span>
+            )}
+          </div>
+          {partial.summary && <p className="mt-4 text-sm text-zinc-600 leading-relaxed">{partial.summary}</p>}
+        </motion.div>
+      ) : (
+        <div className="relative w-24 h-24 mx-auto">
+          <div className="absolute inset-0 border-4 border-zinc-100 rounded-full"></div>
+          <div className="absolute inset-0 border-4 border-zinc-900 rounded-full border-t-transparent animate-spin"></div>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Car className="w-8 h-8 text-zinc-900" />
+          </div>
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {STAGES.map(({ stage, label }) => {
+          const progress = stages[stage];
+          const { icon: Icon, className } = STATUS_ICONS[progress?.status ?? 'pending'];
+          return (
+            <li key={stage} className="flex items-start gap-3">
+              <Icon className={cn("w-5 h-5 shrink-0", className)} />
+              <div>
+                <p className={cn(
+                  "text-sm font-medium",
+                  progress ? "text-zinc-900" : "text-zinc-400",
+                  progress?.status === 'skipped' && "text-zinc-400"
+                )}>
+                  {label}
+                </p>
+                {progress?.detail && (
+                  <p className={cn("text-xs", progress.status === 'failed' ? "text-rose-600" : "text-zinc-400")}>{progress.detail}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="text-center">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 text-sm font-medium text-zinc-400 hover:text-zinc-900 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+    </motion.div>
+  );
+}
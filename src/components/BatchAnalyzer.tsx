@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Clock,
+  FileUp,
+  Layers,
+  Loader2,
+  XCircle,
+} from 'lucide-react';
+import { createBatch, fetchBatch } from '../services/api';
+import { extractListingUrls } from '../lib/urls';
+import { cn } from '../lib/utils';
+import type { Batch, BatchItem, CarAnalysis } from '../types';
+
+interface BatchAnalyzerProps {
+  token: string;
+  onOpen: (analysis: CarAnalysis, url: string) => void;
+}
+
+type SortKey = 'vehicle' | 'price' | 'mileage' | 'dealScore';
+
+const POLL_INTERVAL_MS = 2000;
+
+const SORT_VALUES: Record<SortKey, (analysis: CarAnalysis) => string | number> = {
+  vehicle: (a) => `${a.year} ${a.make} ${a.model}`,
+  price: (a) => a.price,
+  mileage: (a) => a.mileage,
+  dealScore: (a) => a.dealScore,
+};
+
+function StatusIcon({ status }: { status: BatchItem['status'] }) {
+  switch (status) {
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+    case 'failed': return <XCircle className="w-4 h-4 text-rose-500" />;
+    case 'running': return <Loader2 className="w-4 h-4 text-zinc-900 animate-spin" />;
+    default: return <Clock className="w-4 h-4 text-zinc-300" />;
+  }
+}
+
+export default function BatchAnalyzer({ token, onOpen }: BatchAnalyzerProps) {
+  const [input, setInput] = useState('');
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'dealScore', direction: 'desc' });
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const urls = extractListingUrls(input);
+  const isRunning = batch?.items.some((item) => item.status === 'queued' || item.status === 'running') ?? false;
+
+  useEffect(() => {
+    if (!batch || !isRunning) return;
+    const timer = setTimeout(async () => {
+      try {
+        setBatch(await fetchBatch(batch.id, token));
+      } catch (err) {
+        console.error("Failed to refresh batch", err);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch, isRunning, token]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const found = extractListingUrls(text);
+    setInput((prev) => [...extractListingUrls(prev), ...found].filter((url, i, all) => all.indexOf(url) === i).join('\n'));
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (urls.length === 0) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      setBatch(await createBatch(urls, token));
+    } catch (err: any) {
+      setError(err.message || 'Failed to queue batch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => ({
+      key,
+      direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  const finished = batch?.items.filter((item) => item.status === 'done' || item.status === 'failed').length ?? 0;
+  const results = (batch?.items || [])
+    .filter((item): item is BatchItem & { result: CarAnalysis } => item.status === 'done' && item.result !== null)
+    .sort((a, b) => {
+      const av = SORT_VALUES[sort.key](a.result);
+      const bv = SORT_VALUES[sort.key](b.result);
+      const order = av < bv ? -1 : av > bv ? 1 : 0;
+      return sort.direction === 'asc' ? order : -order;
+    });
+
+  const renderSortHeader = (label: string, sortKey: SortKey, className?: string) => (
+    <th className={cn("p-4 text-xs font-bold text-zinc-400 uppercase tracking-wider", className)}>
+      <button onClick={() => toggleSort(sortKey)} className="inline-flex items-center gap-1 hover:text-zinc-900">
+        {label}
+        {sort.key === sortKey && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="space-y-8 mb-12"
+    >
+      <form onSubmit={handleSubmit} className="glass-card rounded-3xl p-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-display text-2xl font-bold flex items-center gap-2">
+            <Layers className="w-6 h-6 text-zinc-400" />
+            Batch Analysis
+          </h3>
+          <span className="text-sm text-zinc-400">{urls.length} URLs detected</span>
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Paste listing URLs, one per line..."
+          rows={6}
+          className="w-full p-4 bg-white border-2 border-zinc-200 rounded-2xl focus:outline-none focus:border-zinc-900 transition-all font-mono text-sm"
+        />
+        {error && (
+          <div className="p-4 bg-rose-50 border border-rose-100 rounded-xl text-rose-600 text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 transition-colors"
+          >
+            <FileUp className="w-4 h-4" />
+            Upload .txt or .csv
+          </button>
+          <input ref={fileInput} type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} className="hidden" />
+          <button
+            type="submit"
+            disabled={urls.length === 0 || isSubmitting || isRunning}
+            className="px-6 py-3 bg-zinc-900 text-white rounded-xl font-medium hover:bg-zinc-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : `Analyze ${urls.length || ''} Listings`}
+          </button>
+        </div>
+      </form>
+
+      {batch && (
+        <div className="glass-card rounded-3xl p-8 space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-bold">{isRunning ? 'Analyzing...' : 'Batch complete'}</span>
+            <span className="text-zinc-400">{finished} / {batch.items.length}</span>
+          </div>
+          <div className="h-2 bg-zinc-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-zinc-900 transition-all"
+              style={{ width: `${(finished / batch.items.length) * 100}%` }}
+            />
+          </div>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {batch.items.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 text-sm">
+                <StatusIcon status={item.status} />
+                <span className="flex-1 truncate text-zinc-600 font-mono text-xs">{item.url}</span>
+                {item.status === 'queued' && item.attempts > 0 && (
+                  <span className="text-[10px] text-amber-600 font-medium">retry {item.attempts}</span>
+                )}
+                {item.error && <span className="text-[10px] text-rose-600 font-medium truncate max-w-xs" title={item.error}>{item.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="glass-card rounded-3xl overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-zinc-100">
+                {renderSortHeader('Vehicle', 'vehicle')}
+                {renderSortHeader('Price', 'price', 'text-right')}
+                {renderSortHeader('Mileage', 'mileage', 'text-right')}
+                {renderSortHeader('Score', 'dealScore', 'text-right')}
+                <th className="p-4 text-xs font-bold text-zinc-400 uppercase tracking-wider">Rating</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(({ id, url, result }) => (
+                <tr
+                  key={id}
+                  onClick={() => onOpen(result, url)}
+                  className="border-b border-zinc-50 last:border-0 hover:bg-zinc-50 cursor-pointer"
+                >
+                  <td className="p-4 font-medium">{result.year} {result.make} {result.model}</td>
+                  <td className="p-4 text-right">${result.price.toLocaleString()}</td>
+                  <td className="p-4 text-right">{result.mileage.toLocaleString()} mi</td>
+                  <td className="p-4 text-right font-bold">{result.dealScore}</td>
+                  <td className="p-4">{result.dealRating}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
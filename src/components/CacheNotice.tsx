@@ -0,0 +1,50 @@
+import { Clock, RefreshCw, Sparkles } from 'lucide-react';
+import { formatDateTime } from '../lib/dates';
+import { cn } from '../lib/utils';
+import type { CarAnalysis } from '../types';
+import AnalysisChanges from './AnalysisChanges';
+
+interface CacheNoticeProps {
+  analysis: CarAnalysis;
+  onRefresh: () => void;
+  isRefreshing: boolean;
+}
+
+/** When the result was produced, a way to force a fresh run, and what changed since the previous run. */
+export default function CacheNotice({ analysis, onRefresh, isRefreshing }: CacheNoticeProps) {
+  const cache = analysis.cache;
+  if (!cache) return null;
+
+  return (
+    <div className="glass-card rounded-3xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-zinc-600 flex items-center gap-2">
+          {cache.cached ? <Clock className="w-4 h-4 text-zinc-400" /> : <Sparkles className="w-4 h-4 text-zinc-400" />}
+          {cache.cached
+            ? <>Cached result from <span className="font-bold">{formatDateTime(cache.analyzedAt)}</span></>
+            : <>Fresh analysis{cache.previousAnalyzedAt && <>; last analyzed {formatDateTime(cache.previousAnalyzedAt)}</>}</>}
+        </p>
+        {cache.cached && (
+          <button
+            onClick={onRefresh}
+            disabled={isRefreshing}
+            className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-zinc-800 disabled:opacity-50 transition-all"
+            title="Run a new analysis instead of using the cached one"
+          >
+            <RefreshCw className={cn("w-4 h-4", isRefreshing && "animate-spin")} />
+            Refresh analysis
+          </button>
+        )}
+      </div>
+
+      {cache.previousAnalyzedAt && (
+        <div className="mt-4 pt-4 border-t border-zinc-100">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400 mb-3">
+            Changes since {formatDateTime(cache.previousAnalyzedAt)}
+          </p>
+          <AnalysisChanges changes={cache.changes} />
+        </div>
+      )}
+    </div>
+  );
+}
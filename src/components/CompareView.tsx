@@ -0,0 +1,252 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ArrowRight, Columns3, X } from 'lucide-react';
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { scoreTitleStatus } from '../lib/dealScoring';
+import { severityRank } from '../lib/redFlags';
+import { cn } from '../lib/utils';
+import type { SavedDeal } from '../types';
+
+interface CompareViewProps {
+  deals: SavedDeal[];
+  onOpen: (deal: SavedDeal) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+interface CompareRow {
+  label: string;
+  /** Numeric value used to rank cells; undefined cells are never highlighted. */
+  value: (deal: SavedDeal) => number | undefined;
+  format: (deal: SavedDeal) => React.ReactNode;
+  better: 'higher' | 'lower';
+}
+
+function marketDelta(deal: SavedDeal): number | undefined {
+  const average = deal.marketComparison?.averagePrice;
+  if (!average || !deal.price) return undefined;
+  return (deal.price - average) / average;
+}
+
+const ROWS: CompareRow[] = [
+  {
+    label: 'Price',
+    value: d => d.price || undefined,
+    format: d => `$${d.price.toLocaleString()}`,
+    better: 'lower',
+  },
+  {
+    label: 'Mileage',
+    value: d => d.mileage ?? undefined,
+    format: d => d.mileage !== undefined ? `${d.mileage.toLocaleString()} mi` : 'N/A',
+    better: 'lower',
+  },
+  {
+    label: 'Year',
+    value: d => d.year || undefined,
+    format: d => d.year || 'N/A',
+    better: 'higher',
+  },
+  {
+    label: 'Deal Score',
+    value: d => d.dealScore,
+    format: d => `${d.dealScore} · ${d.dealRating}`,
+    better: 'higher',
+  },
+  {
+    label: 'Title Status',
+    value: d => scoreTitleStatus(d.vinData?.titleStatus),
+    format: d => d.vinData?.titleStatus || 'Unknown',
+    better: 'higher',
+  },
+  {
+    label: 'Recalls',
+    value: d => d.vinData?.recalls?.length,
+    format: d => d.vinData?.recalls ? d.vinData.recalls.length : 'N/A',
+    better: 'lower',
+  },
+  {
+    label: 'Red Flags',
+    // One critical flag outweighs any number of lesser ones, and so on down
+    value: d => (d.redFlags || []).reduce((sum, f) => sum + 10 ** (3 - severityRank(f.severity)), 0),
+    format: d => {
+      const flags = d.redFlags || [];
+      if (!flags.length) return 0;
+      const worst = flags.reduce((a, b) => (severityRank(b.severity) < severityRank(a.severity) ? b : a));
+      return `${flags.length} · worst ${worst.severity}`;
+    },
+    better: 'lower',
+  },
+  {
+    label: 'vs. Market Avg',
+    value: marketDelta,
+    format: d => {
+      const delta = marketDelta(d);
+      if (delta === undefined) return 'N/A';
+      const amount = d.price - d.marketComparison.averagePrice;
+      return `${amount <= 0 ? '-' : '+'}$${Math.abs(amount).toLocaleString()} (${delta <= 0 ? '' : '+'}${Math.round(delta * 100)}%)`;
+    },
+    better: 'lower',
+  },
+];
+
+function highlight(row: CompareRow, deals: SavedDeal[], deal: SavedDeal): 'best' | 'worst' | null {
+  const values = deals.map(row.value).filter((v): v is number => v !== undefined);
+  const value = row.value(deal);
+  if (value === undefined || values.length < 2) return null;
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  if (max === min) return null;
+  const best = row.better === 'higher' ? max : min;
+  const worst = row.better === 'higher' ? min : max;
+  if (value === best) return 'best';
+  if (value === worst) return 'worst';
+  return null;
+}
+
+export default function CompareView({ deals, onOpen, onRemove, onClose }: CompareViewProps) {
+  const chartData = deals.map(deal => ({
+    name: `${deal.year} ${deal.model}`,
+    price: deal.price,
+    marketAverage: deal.marketComparison?.averagePrice,
+    dealScore: deal.dealScore,
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="space-y-8 mb-12"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-display text-2xl font-bold flex items-center gap-2">
+          <Columns3 className="w-6 h-6 text-zinc-400" />
+          Compare Deals
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-zinc-500 hover:text-zinc-900 transition-colors"
+        >
+          Back to History
+        </button>
+      </div>
+
+      <div className="glass-card rounded-3xl overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-zinc-100">
+              <th className="p-4 w-40" />
+              {deals.map(deal => (
+                <th key={deal._id} className="p-4 text-left align-top min-w-44">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <span className="block text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{deal.year} {deal.make}</span>
+                      <span className="font-display font-bold text-base">{deal.model}</span>
+                    </div>
+                    <button
+                      onClick={() => onRemove(deal._id)}
+                      className="p-1 text-zinc-300 hover:text-rose-500 transition-colors"
+                      title="Remove from comparison"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(row => (
+              <tr key={row.label} className="border-b border-zinc-50 last:border-0">
+                <td className="p-4 text-xs font-bold text-zinc-400 uppercase tracking-wider">{row.label}</td>
+                {deals.map(deal => {
+                  const mark = highlight(row, deals, deal);
+                  return (
+                    <td key={deal._id} className="p-2">
+                      <div className={cn(
+                        "px-3 py-2 rounded-xl font-medium",
+                        mark === 'best' && "bg-emerald-50 text-emerald-700",
+                        mark === 'worst' && "bg-rose-50 text-rose-700"
+                      )}>
+                        {row.format(deal)}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="p-4" />
+              {deals.map(deal => (
+                <td key={deal._id} className="p-2">
+                  <button
+                    onClick={() => onOpen(deal)}
+                    className="w-full px-3 py-2 bg-zinc-100 rounded-xl text-xs font-bold hover:bg-zinc-900 hover:text-white transition-all flex items-center justify-center gap-2"
+                  >
+                    Open Analysis
+                    <ArrowRight className="w-3 h-3" />
+                  </button>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="glass-card rounded-3xl p-8">
+        <h4 className="font-display text-lg font-bold mb-6">Price vs. Market & Deal Score</h4>
+        <div className="h-72 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 20, right: 20, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12, fontWeight: 500, fill: '#64748b' }}
+              />
+              <YAxis
+                yAxisId="price"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 10, fill: '#94a3b8' }}
+                tickFormatter={(val) => `$${val / 1000}k`}
+              />
+              <YAxis
+                yAxisId="score"
+                orientation="right"
+                domain={[0, 100]}
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 10, fill: '#94a3b8' }}
+              />
+              <Tooltip
+                cursor={{ fill: 'transparent' }}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                formatter={(value: number, name: string) => [
+                  name === 'Deal Score' ? value : `$${value.toLocaleString()}`,
+                  name,
+                ]}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar yAxisId="price" dataKey="price" name="Asking Price" fill="#0f172a" radius={[6, 6, 0, 0]} barSize={28} />
+              <Bar yAxisId="price" dataKey="marketAverage" name="Market Avg" fill="#cbd5e1" radius={[6, 6, 0, 0]} barSize={28} />
+              <Line yAxisId="score" dataKey="dealScore" name="Deal Score" stroke="#10b981" strokeWidth={2} dot={{ r: 4 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
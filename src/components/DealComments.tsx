@@ -0,0 +1,184 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Loader2, MessageCircle, Reply, Send, Trash2 } from 'lucide-react';
+import { formatDateTime } from '../lib/dates';
+import { deleteComment, fetchComments, postComment } from '../services/api';
+import type { DealComment } from '../types';
+
+interface DealCommentsProps {
+  token: string;
+  dealId: string;
+  /** Keeps the comment count on the deal card in step. */
+  onCountChange?: (count: number) => void;
+}
+
+/** Replies are stored flat with a parent id; nest them for display. */
+function groupByParent(comments: DealComment[]): Map<number | null, DealComment[]> {
+  const byParent = new Map<number | null, DealComment[]>();
+  for (const comment of comments) {
+    byParent.set(comment.parentId, [...(byParent.get(comment.parentId) ?? []), comment]);
+  }
+  return byParent;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  onSubmit: (text: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function CommentForm({ placeholder, onSubmit, onCancel }: CommentFormProps) {
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || isPosting) return;
+    setIsPosting(true);
+    try {
+      await onSubmit(draft);
+      setDraft('');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <input
+        autoFocus={Boolean(onCancel)}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel?.()}
+        placeholder={placeholder}
+        maxLength={2000}
+        className="flex-1 px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+      />
+      <button
+        type="submit"
+        disabled={!draft.trim() || isPosting}
+        className="px-3 py-2 bg-zinc-900 text-white rounded-xl hover:bg-zinc-800 disabled:opacity-30 transition-all"
+        title="Post"
+      >
+        {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+      </button>
+    </form>
+  );
+}
+
+export default function DealComments({ token, dealId, onCountChange }: DealCommentsProps) {
+  const [comments, setComments] = useState<DealComment[]>([]);
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setComments([]);
+    setReplyTo(null);
+    setError(null);
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchComments(dealId, token)
+      .then((loaded) => !cancelled && setComments(loaded))
+      .catch((err) => !cancelled && setError(err.message))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [dealId, token]);
+
+  const updateComments = (next: DealComment[]) => {
+    setComments(next);
+    onCountChange?.(next.length);
+  };
+
+  const handlePost = async (text: string, parentId: number | null) => {
+    setError(null);
+    try {
+      const comment = await postComment(dealId, text, parentId, token);
+      updateComments([...comments, comment]);
+      setReplyTo(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not post your comment');
+      throw err;
+    }
+  };
+
+  const handleDelete = async (comment: DealComment) => {
+    if (!window.confirm('Delete this comment and its replies?')) return;
+    try {
+      await deleteComment(dealId, comment.id, token);
+      // The server removes the whole thread under it
+      const removed = new Set([comment.id]);
+      for (const c of comments) {
+        if (c.parentId !== null && removed.has(c.parentId)) removed.add(c.id);
+      }
+      updateComments(comments.filter((c) => !removed.has(c.id)));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const byParent = groupByParent(comments);
+
+  const renderThread = (parentId: number | null, depth: number) => (
+    <ul className={depth > 0 ? 'mt-3 pl-4 border-l-2 border-zinc-100 space-y-3' : 'space-y-4'}>
+      {(byParent.get(parentId) ?? []).map((comment) => (
+        <li key={comment.id}>
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-xs font-bold text-zinc-700">{comment.mine ? 'You' : comment.author}</span>
+            <span className="text-[10px] text-zinc-400">{formatDateTime(comment.createdAt)}</span>
+          </div>
+          <p className="text-sm text-zinc-600 whitespace-pre-wrap break-words">{comment.text}</p>
+          <div className="flex items-center gap-3 mt-1">
+            <button
+              onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+              className="text-[11px] font-bold text-zinc-400 hover:text-zinc-900 flex items-center gap-1 transition-colors"
+            >
+              <Reply className="w-3 h-3" />
+              Reply
+            </button>
+            {comment.mine && (
+              <button
+                onClick={() => handleDelete(comment)}
+                className="text-[11px] font-bold text-zinc-400 hover:text-rose-600 flex items-center gap-1 transition-colors"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </button>
+            )}
+          </div>
+          {replyTo === comment.id && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder={`Reply to ${comment.mine ? 'yourself' : comment.author}`}
+                onSubmit={(text) => handlePost(text, comment.id)}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          )}
+          {byParent.has(comment.id) && renderThread(comment.id, depth + 1)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <h4 className="font-display text-lg font-bold mb-6 flex items-center gap-2">
+        <MessageCircle className="w-5 h-5 text-zinc-400" />
+        Discussion
+        {comments.length > 0 && <span className="text-xs font-medium text-zinc-400">{comments.length}</span>}
+      </h4>
+
+      {isLoading && <Loader2 className="w-5 h-5 animate-spin text-zinc-300 mx-auto mb-4" />}
+      {!isLoading && comments.length === 0 && (
+        <p className="text-sm text-zinc-400 mb-4">No comments yet. Share what you think of this one.</p>
+      )}
+      {comments.length > 0 && <div className="mb-6">{renderThread(null, 0)}</div>}
+
+      <CommentForm placeholder="Add a comment" onSubmit={(text) => handlePost(text, null)} />
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Search, X } from 'lucide-react';
+import { DEAL_STATUS_LABELS, DEAL_STATUSES, EMPTY_DEAL_QUERY, type DealQuery, type DealSort } from '../lib/savedDeals';
+import type { CarAnalysis } from '../types';
+
+interface DealFiltersProps {
+  query: DealQuery;
+  onChange: (query: DealQuery) => void;
+  tags: string[];
+}
+
+const RATINGS: CarAnalysis['dealRating'][] = ['Great', 'Good', 'Fair', 'Poor', 'Suspicious'];
+
+const SORT_OPTIONS: { value: DealSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'score', label: 'Best score' },
+  { value: 'price_low', label: 'Price: low to high' },
+  { value: 'price_high', label: 'Price: high to low' },
+];
+
+const SELECT_CLASS = "px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm text-zinc-600 focus:outline-none focus:ring-2 focus:ring-zinc-900/10";
+
+/** Search, filter and sort controls for the saved deals grid. */
+export default function DealFilters({ query, onChange, tags }: DealFiltersProps) {
+  const update = (patch: Partial<DealQuery>) => onChange({ ...query, ...patch });
+  const isFiltered = query.search !== '' || query.rating !== '' || query.status !== '' || query.tag !== '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-48">
+        <Search className="w-4 h-4 text-zinc-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search make, model, VIN, notes or tags"
+          className="w-full pl-9 pr-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+        />
+      </div>
+      <select
+        value={query.rating}
+        onChange={(e) => update({ rating: e.target.value as DealQuery['rating'] })}
+        className={SELECT_CLASS}
+        title="Filter by rating"
+      >
+        <option value="">Any rating</option>
+        {RATINGS.map((rating) => (
+          <option key={rating} value={rating}>{rating}</option>
+        ))}
+      </select>
+      <select
+        value={query.status}
+        onChange={(e) => update({ status: e.target.value as DealQuery['status'] })}
+        className={SELECT_CLASS}
+        title="Filter by status"
+      >
+        <option value="">Any status</option>
+        {DEAL_STATUSES.map((status) => (
+          <option key={status} value={status}>{DEAL_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+      {tags.length > 0 && (
+        <select
+          value={query.tag}
+          onChange={(e) => update({ tag: e.target.value })}
+          className={SELECT_CLASS}
+          title="Filter by tag"
+        >
+          <option value="">Any tag</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+      )}
+      <select
+        value={query.sort}
+        onChange={(e) => update({ sort: e.target.value as DealSort })}
+        className={SELECT_CLASS}
+        title="Sort"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {isFiltered && (
+        <button
+          onClick={() => onChange({ ...EMPTY_DEAL_QUERY, sort: query.sort })}
+          className="px-3 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-900 transition-colors flex items-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
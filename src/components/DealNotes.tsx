@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, NotebookPen, X } from 'lucide-react';
+import { DEAL_STATUS_LABELS, DEAL_STATUSES, MAX_TAG_LENGTH, MAX_TAGS, normalizeTags } from '../lib/savedDeals';
+import type { DealPatch } from '../services/api';
+import type { DealStatus, SavedDeal } from '../types';
+
+interface DealNotesProps {
+  deal: SavedDeal;
+  onSave: (patch: Pick<DealPatch, 'notes' | 'tags' | 'status'>) => Promise<unknown>;
+}
+
+/** The owner's pipeline status, tags and private notes for a saved deal. */
+export default function DealNotes({ deal, onSave }: DealNotesProps) {
+  const [notes, setNotes] = useState(deal.notes ?? '');
+  const [tagInput, setTagInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const tags = deal.tags ?? [];
+
+  useEffect(() => {
+    setNotes(deal.notes ?? '');
+    setTagInput('');
+    setError(null);
+  }, [deal._id]);
+
+  const save = async (patch: Pick<DealPatch, 'notes' | 'tags' | 'status'>): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(patch);
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Could not save');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = normalizeTags([...tags, tagInput]);
+    if (next.length === tags.length) return setTagInput('');
+    if (next.length > MAX_TAGS) return setError(`A deal can have at most ${MAX_TAGS} tags`);
+    save({ tags: next }).then((saved) => saved && setTagInput(''));
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <h4 className="font-display text-lg font-bold mb-5 flex items-center gap-2">
+        <NotebookPen className="w-5 h-5 text-zinc-400" />
+        Notes
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin text-zinc-400" />}
+      </h4>
+
+      <label className="block text-[10px] font-bold uppercase tracking-widest text-zinc-400 mb-2">Status</label>
+      <select
+        value={deal.status ?? 'considering'}
+        onChange={(e) => save({ status: e.target.value as DealStatus })}
+        className="w-full mb-5 px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+      >
+        {DEAL_STATUSES.map((status) => (
+          <option key={status} value={status}>{DEAL_STATUS_LABELS[status]}</option>
+        ))}
+      </select>
+
+      <label className="block text-[10px] font-bold uppercase tracking-widest text-zinc-400 mb-2">Tags</label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {tags.map((tag) => (
+          <span key={tag} className="px-2 py-1 bg-zinc-100 rounded-lg text-xs font-medium text-zinc-600 flex items-center gap-1">
+            #{tag}
+            <button
+              onClick={() => save({ tags: tags.filter((t) => t !== tag) })}
+              className="text-zinc-400 hover:text-zinc-900"
+              title="Remove tag"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <form onSubmit={addTag} className="mb-5">
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          maxLength={MAX_TAG_LENGTH}
+          placeholder="Add a tag and press Enter"
+          className="w-full px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+        />
+      </form>
+
+      <label className="block text-[10px] font-bold uppercase tracking-widest text-zinc-400 mb-2">Private notes</label>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={4}
+        maxLength={5000}
+        placeholder="Questions for the seller, what you saw on the test drive..."
+        className="w-full px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10 resize-y"
+      />
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-zinc-400">Only you can see your notes, even in a shared workspace.</p>
+        <button
+          onClick={() => save({ notes })}
+          disabled={isSaving || notes === (deal.notes ?? '')}
+          className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold hover:bg-zinc-800 disabled:opacity-30 transition-all"
+        >
+          Save notes
+        </button>
+      </div>
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import type { ReactNode } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Bar, BarChart, CartesianGrid, Cell, LabelList, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { normalizeRecall } from '../lib/recalls';
+import { severityRank } from '../lib/redFlags';
+import { listingUrlOf } from '../lib/report';
+import { cn } from '../lib/utils';
+import type { CarAnalysis, Citation } from '../types';
+
+interface DealReportProps {
+  analysis: CarAnalysis;
+  /** Show the report on screen too, as the read-only view of a shared deal. */
+  onScreen?: boolean;
+  /** Leave out the negotiation section, for links shared without the pitch. */
+  hidePitch?: boolean;
+}
+
+function money(amount: number): string {
+  return `$${Math.round(amount).toLocaleString()}`;
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="break-inside-avoid mb-8">
+      <h2 className="font-display text-sm font-bold uppercase tracking-widest text-zinc-500 border-b border-zinc-200 pb-1 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Row({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1 border-b border-zinc-100 text-sm">
+      <span className="text-zinc-500">{label}</span>
+      <span className="font-medium text-right">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * A flat, paper-friendly rendering of the whole analysis. Unless `onScreen`
+ * is set it is hidden on screen and replaces the app when printing, so
+ * "Save as PDF" in the print dialog produces the downloadable report.
+ */
+export default function DealReport({ analysis, onScreen = false, hidePitch = false }: DealReportProps) {
+  const { marketComparison: market, vinData } = analysis;
+  const listingUrl = listingUrlOf(analysis);
+  const recalls = (vinData?.recalls || []).map(normalizeRecall);
+  const flags = [...analysis.redFlags].sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+  const chartData = [
+    { name: 'Low', price: market.lowPrice },
+    { name: 'Avg', price: market.averagePrice },
+    { name: 'High', price: market.highPrice },
+    { name: 'This Car', price: analysis.price },
+  ];
+
+  const citations = new Map<string, Citation>();
+  for (const source of Object.values(analysis.sources || {})) {
+    source?.citations.forEach(citation => citations.set(citation.url, citation));
+  }
+
+  return (
+    <article className={cn('text-zinc-900 bg-white max-w-3xl mx-auto font-sans', onScreen ? 'block' : 'hidden print:block')}>
+      <header className="mb-8 pb-6 border-b-2 border-zinc-900">
+        <div className="flex justify-between items-start gap-6">
+          <div>
+            <p className="text-xs font-mono uppercase tracking-wider text-zinc-500">CarDealScout deal report</p>
+            <h1 className="font-display text-3xl font-bold mt-1">{analysis.year} {analysis.make} {analysis.model}</h1>
+            <p className="text-sm text-zinc-600 mt-1">
+              {analysis.mileage.toLocaleString()} miles · {analysis.location} · {analysis.condition}
+            </p>
+            {listingUrl && <p className="text-xs text-zinc-500 mt-1 break-all">{listingUrl}</p>}
+          </div>
+          <div className="text-right shrink-0">
+            <div className="text-3xl font-display font-bold">{money(analysis.price)}</div>
+            <div className="text-sm font-bold">{analysis.dealRating} Deal · {analysis.dealScore}/100</div>
+            <div className="text-xs text-zinc-500">Generated {new Date().toLocaleDateString()}</div>
+          </div>
+        </div>
+      </header>
+
+      <Section title="Summary">
+        <p className="text-sm leading-relaxed">{analysis.summary}</p>
+      </Section>
+
+      {analysis.scoreBreakdown && (
+        <Section title="Score Breakdown">
+          {analysis.scoreBreakdown.factors.map(factor => (
+            <Row
+              key={factor.key}
+              label={`${factor.label} (${Math.round(factor.weight * 100)}%)`}
+              value={`${factor.score}/100 · ${factor.detail}`}
+            />
+          ))}
+        </Section>
+      )}
+
+      <Section title="Pros & Cons">
+        <div className="grid grid-cols-2 gap-6 text-sm">
+          <ul className="space-y-1">
+            {analysis.pros.map((pro, i) => <li key={i}>+ {pro}</li>)}
+          </ul>
+          <ul className="space-y-1">
+            {analysis.cons.map((con, i) => <li key={i}>− {con}</li>)}
+          </ul>
+        </div>
+      </Section>
+
+      <Section title="Red Flags">
+        {flags.length === 0 ? (
+          <p className="text-sm text-zinc-500">No major red flags detected.</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {flags.map((flag, i) => (
+              <li key={i}>
+                <span className="font-bold uppercase text-[10px] tracking-wider mr-2">{flag.severity} · {flag.category}</span>
+                {flag.message}
+                {flag.evidence && <span className="block text-xs text-zinc-500 italic pl-4">“{flag.evidence}”</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      {analysis.vin && (
+        <Section title="Vehicle Identity">
+          <Row label="VIN" value={<span className="font-mono">{analysis.vin}</span>} />
+          {vinData?.vinCheck && <Row label="VIN check" value={vinData.vinCheck.valid ? 'Check digit valid' : 'Invalid VIN'} />}
+          {[...(vinData?.vinCheck?.errors || []), ...(vinData?.vinCheck?.mismatches || [])].map((problem, i) => (
+            <Row key={i} label="Problem" value={problem} />
+          ))}
+          <Row label="Manufacturer" value={vinData?.manufacturer || vinData?.vinCheck?.decoded?.manufacturer || 'N/A'} />
+          <Row label="Model year (VIN)" value={vinData?.vinCheck?.decoded?.modelYear || 'N/A'} />
+          <Row label="Assembly plant" value={vinData?.plantCountry || vinData?.vinCheck?.decoded?.country || 'N/A'} />
+          <Row label="Body class" value={vinData?.bodyClass || 'N/A'} />
+          <Row label="Engine / fuel" value={[vinData?.engineHP && `${vinData.engineHP} HP`, vinData?.fuelType].filter(Boolean).join(' ') || 'N/A'} />
+          <Row label="Title status" value={vinData?.titleStatus || 'Unknown'} />
+          <Row label="Accident history" value={vinData?.accidentHistory || 'No public records found'} />
+        </Section>
+      )}
+
+      {analysis.vin && (
+        <Section title={`Safety Recalls (${recalls.length})`}>
+          {recalls.length === 0 ? (
+            <p className="text-sm text-zinc-500">No recalls found for this vehicle.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {recalls.map(recall => (
+                <li key={recall.campaignNumber}>
+                  <span className="font-bold">{recall.component}</span>
+                  <span className="text-xs text-zinc-500 ml-2">
+                    {recall.campaignNumber}{recall.reportDate && ` · ${recall.reportDate}`}{recall.parkIt && ' · DO NOT DRIVE'}
+                  </span>
+                  <p className="text-xs text-zinc-600 mt-0.5">{recall.summary}</p>
+                  {recall.remedy && <p className="text-xs text-zinc-600 mt-0.5"><span className="font-bold">Remedy:</span> {recall.remedy}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      )}
+
+      <Section title="Market Comparison">
+        <div className="flex items-center gap-6">
+          <BarChart width={420} height={200} data={chartData} margin={{ top: 20, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e4e4e7" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#52525b' }} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#71717a' }} tickFormatter={(val) => `$${val / 1000}k`} />
+            <Bar dataKey="price" barSize={36} isAnimationActive={false}>
+              {chartData.map(entry => (
+                <Cell key={entry.name} fill={entry.name === 'This Car' ? '#18181b' : '#d4d4d8'} />
+              ))}
+              <LabelList dataKey="price" position="top" fontSize={10} formatter={(value: any) => money(Number(value))} />
+            </Bar>
+            <ReferenceLine y={market.averagePrice} stroke="#a1a1aa" strokeDasharray="3 3" />
+          </BarChart>
+          <div className="flex-1">
+            <Row label="Low" value={money(market.lowPrice)} />
+            <Row label="Average" value={money(market.averagePrice)} />
+            <Row label="High" value={money(market.highPrice)} />
+            <Row label="Similar listings" value={market.similarCarsCount} />
+          </div>
+        </div>
+      </Section>
+
+      {analysis.tco && (
+        <Section title={`${analysis.tco.result.years}-Year Cost of Ownership`}>
+          <Row label="Projected total" value={`${money(analysis.tco.result.total)} (≈ ${money(analysis.tco.result.perMonth)}/mo)`} />
+          <Row label="Estimated resale" value={money(analysis.tco.result.resaleValue)} />
+          {analysis.tco.result.assumptions.map(assumption => (
+            <p key={assumption} className="text-[11px] text-zinc-500">· {assumption}</p>
+          ))}
+        </Section>
+      )}
+
+      {!hidePitch && (
+        <Section title="Negotiation Strategy">
+          {analysis.financing && (
+            <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+              <Row label="Opening" value={money(analysis.financing.targets.opening.price)} />
+              <Row label="Target" value={money(analysis.financing.targets.target.price)} />
+              <Row label="Walk away" value={money(analysis.financing.targets.walkAway.price)} />
+            </div>
+          )}
+          <div className="prose prose-sm max-w-none text-zinc-700">
+            {analysis.negotiationPitch
+              ? <ReactMarkdown>{analysis.negotiationPitch}</ReactMarkdown>
+              : <p className="italic">No negotiation strategy was generated for this listing.</p>}
+          </div>
+        </Section>
+      )}
+
+      {citations.size > 0 && (
+        <Section title="Sources">
+          <ul className="text-xs text-zinc-600 space-y-1">
+            {[...citations.values()].map(citation => (
+              <li key={citation.url} className="break-all">{citation.title ? `${citation.title}: ` : ''}{citation.url}</li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      <footer className="text-[10px] text-zinc-400 border-t border-zinc-200 pt-3">
+        Market values and history are automated estimates. Always get a pre-purchase inspection and a full vehicle history report before buying.
+      </footer>
+    </article>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2, RefreshCw } from 'lucide-react';
+import { diffAnalyses } from '../lib/analysisDiff';
+import { formatDateTime } from '../lib/dates';
+import { cn } from '../lib/utils';
+import { fetchDealVersions, reanalyzeDeal } from '../services/api';
+import type { DealVersion, SavedDeal } from '../types';
+import AnalysisChanges from './AnalysisChanges';
+
+interface DealVersionsProps {
+  token: string;
+  deal: SavedDeal;
+  /** Left out for teammates' deals, which only their owner can re-analyze. */
+  onReanalyzed?: (updated: SavedDeal) => void;
+}
+
+const SELECT_CLASS = "flex-1 min-w-0 px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10";
+
+/** Every analysis of a saved deal, what changed between any two, and a way to add a fresh one. */
+export default function DealVersions({ token, deal, onReanalyzed }: DealVersionsProps) {
+  const [versions, setVersions] = useState<DealVersion[]>([]);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDealVersions(deal._id, token)
+      .then((loaded) => {
+        if (cancelled) return;
+        setVersions(loaded);
+        // Default to the latest change
+        setFromId(loaded.length > 1 ? loaded[loaded.length - 2].id : null);
+        setToId(loaded.length > 0 ? loaded[loaded.length - 1].id : null);
+      })
+      .catch((err) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [deal._id, deal.versionCount, token]);
+
+  const handleReanalyze = async () => {
+    if (!onReanalyzed) return;
+    setIsReanalyzing(true);
+    setError(null);
+    try {
+      onReanalyzed(await reanalyzeDeal(deal._id, token));
+    } catch (err: any) {
+      setError(err.message || 'Could not re-analyze this listing');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const from = versions.find((version) => version.id === fromId);
+  const to = versions.find((version) => version.id === toId);
+  const latestId = versions[versions.length - 1]?.id;
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <div className="flex items-center justify-between gap-4 mb-5">
+        <h4 className="font-display text-lg font-bold flex items-center gap-2">
+          <History className="w-5 h-5 text-zinc-400" />
+          Versions
+          <span className="text-sm font-normal text-zinc-400">({versions.length})</span>
+        </h4>
+        {onReanalyzed && (
+          <button
+            onClick={handleReanalyze}
+            disabled={isReanalyzing || !deal.url}
+            className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-zinc-800 disabled:opacity-50 transition-all"
+            title={!deal.url ? "Only deals with a listing URL can be re-analyzed" : "Analyze the listing again and keep this result as a new version"}
+          >
+            {isReanalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Re-analyze
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-1 mb-5">
+        {[...versions].reverse().map((version) => (
+          <li
+            key={version.id}
+            className={cn(
+              "flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-sm",
+              version.id === fromId || version.id === toId ? "bg-zinc-100" : "text-zinc-500"
+            )}
+          >
+            <span>
+              {formatDateTime(version.analyzedAt)}
+              {version.id === latestId && <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-zinc-400">Current</span>}
+            </span>
+            <span className="font-mono text-xs">
+              ${version.analysis.price.toLocaleString()} · {version.analysis.dealScore}/100
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {versions.length < 2 ? (
+        <p className="text-sm text-zinc-500">
+          Only one analysis so far.{onReanalyzed && deal.url && ' Re-analyze to see what has changed since it was saved.'}
+        </p>
+      ) : (
+        <div className="pt-4 border-t border-zinc-100">
+          <div className="flex items-center gap-2 mb-4">
+            <select value={fromId ?? ''} onChange={(e) => setFromId(Number(e.target.value))} className={SELECT_CLASS} title="Compare from">
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>{formatDateTime(version.analyzedAt)}</option>
+              ))}
+            </select>
+            <span className="text-xs text-zinc-400">to</span>
+            <select value={toId ?? ''} onChange={(e) => setToId(Number(e.target.value))} className={SELECT_CLASS} title="Compare to">
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>{formatDateTime(version.analyzedAt)}</option>
+              ))}
+            </select>
+          </div>
+          {from && to && <AnalysisChanges changes={diffAnalyses(from.analysis, to.analysis)} />}
+        </div>
+      )}
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
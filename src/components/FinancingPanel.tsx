@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, Target, Wand2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { calculateNegotiationTargets, defaultFinancingInputs } from '../lib/financing';
+import type { CarAnalysis, FinancingInputs, NegotiationTargets } from '../types';
+
+interface FinancingPanelProps {
+  analysis: CarAnalysis;
+  onRewritePitch: (inputs: FinancingInputs) => Promise<void>;
+}
+
+const FIELDS: { key: keyof FinancingInputs; label: string; step: number; prefix?: string; suffix?: string }[] = [
+  { key: 'monthlyBudget', label: 'Budget / month', step: 25, prefix: '$' },
+  { key: 'downPayment', label: 'Down payment', step: 500, prefix: '$' },
+  { key: 'apr', label: 'Loan APR', step: 0.25, suffix: '%' },
+  { key: 'termMonths', label: 'Term', step: 12, suffix: 'mo' },
+];
+
+const TARGETS: { key: keyof Pick<NegotiationTargets, 'opening' | 'target' | 'walkAway'>; label: string; style: string }[] = [
+  { key: 'opening', label: 'Open at', style: 'bg-emerald-50 border-emerald-100 text-emerald-800' },
+  { key: 'target', label: 'Aim for', style: 'bg-indigo-50 border-indigo-100 text-indigo-800' },
+  { key: 'walkAway', label: 'Walk away above', style: 'bg-rose-50 border-rose-100 text-rose-800' },
+];
+
+export default function FinancingPanel({ analysis, onRewritePitch }: FinancingPanelProps) {
+  const [inputs, setInputs] = useState<FinancingInputs>(analysis.financing?.inputs ?? defaultFinancingInputs(analysis));
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets = calculateNegotiationTargets(analysis, inputs);
+  const pitchIsCurrent = JSON.stringify(analysis.financing?.inputs) === JSON.stringify(inputs);
+
+  const handleRewrite = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      await onRewritePitch(inputs);
+    } catch (err: any) {
+      setError(err.message || 'Could not rewrite the pitch');
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <h4 className="font-display text-lg font-bold mb-6 flex items-center gap-2">
+        <Target className="w-5 h-5 text-zinc-400" />
+        Price Targets & Financing
+      </h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="block">
+            <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{field.label}</span>
+            <div className="mt-1 flex items-center bg-zinc-50 border border-zinc-200 rounded-xl focus-within:ring-2 focus-within:ring-zinc-900/10">
+              {field.prefix && <span className="pl-3 text-sm text-zinc-400">{field.prefix}</span>}
+              <input
+                type="number"
+                min={0}
+                step={field.step}
+                value={inputs[field.key]}
+                placeholder={field.key === 'monthlyBudget' ? 'No limit' : undefined}
+                onChange={(e) => setInputs({ ...inputs, [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 bg-transparent text-sm focus:outline-none"
+              />
+              {field.suffix && <span className="pr-3 text-sm text-zinc-400">{field.suffix}</span>}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        {TARGETS.map(({ key, label, style }) => (
+          <div key={key} className={cn('p-4 rounded-2xl border', style)}>
+            <span className="text-[10px] font-bold uppercase tracking-widest opacity-70">{label}</span>
+            <div className="text-2xl font-display font-bold">${targets[key].price.toLocaleString()}</div>
+            {targets[key].monthlyPayment > 0 && (
+              <span className="text-xs opacity-80">${targets[key].monthlyPayment.toLocaleString()}/mo</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {targets.notes.length > 0 && (
+        <ul className="space-y-1 mb-4">
+          {targets.notes.map((note) => (
+            <li key={note} className={cn('text-xs flex items-start gap-2', targets.overBudget ? 'text-rose-700' : 'text-zinc-500')}>
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-[11px] text-zinc-400 mb-6">
+        Monthly payments exclude sales tax and fees.
+        {targets.maxAffordablePrice !== null && ` Your budget covers a price of up to $${targets.maxAffordablePrice.toLocaleString()}.`}
+      </p>
+
+      <button
+        onClick={handleRewrite}
+        disabled={isWriting || pitchIsCurrent}
+        className="w-full py-3 bg-indigo-600 text-white rounded-2xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-indigo-500 disabled:bg-zinc-100 disabled:text-zinc-400 transition-colors"
+      >
+        {isWriting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+        {pitchIsCurrent ? 'Pitch uses these numbers' : 'Rewrite pitch with these numbers'}
+      </button>
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
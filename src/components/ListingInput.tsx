@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowRight, FileText, ImagePlus, Link2, Loader2, Search, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { ListingImage, ListingSource } from '../types';
+
+type InputMode = ListingSource['kind'];
+
+interface ListingInputProps {
+  url: string;
+  onUrlChange: (url: string) => void;
+  /** Controlled so an error can send the user to the text or screenshot tab. */
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  isAnalyzing: boolean;
+  onSubmit: (source: ListingSource) => void;
+}
+
+const MAX_IMAGES = 6;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+const MODES: { mode: InputMode; label: string; icon: typeof Link2 }[] = [
+  { mode: 'url', label: 'Link', icon: Link2 },
+  { mode: 'text', label: 'Paste Text', icon: FileText },
+  { mode: 'images', label: 'Screenshots', icon: ImagePlus },
+];
+
+function readImage(file: File): Promise<ListingImage> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const [, data] = String(reader.result).split(',');
+      resolve({ mimeType: file.type, data });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function ListingInput({ url, onUrlChange, mode, onModeChange, isAnalyzing, onSubmit }: ListingInputProps) {
+  const [text, setText] = useState('');
+  const [images, setImages] = useState<ListingImage[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((file) => file.type.startsWith('image/'));
+    // The server rejects the whole request over one oversized screenshot, so drop those up front
+    const tooLarge = files.filter((file) => file.size > MAX_IMAGE_BYTES);
+    setFileError(tooLarge.length > 0 ? `Skipped ${tooLarge.map((file) => file.name).join(', ')}: each screenshot must be under 4 MB` : null);
+    const read = await Promise.all(files.filter((file) => file.size <= MAX_IMAGE_BYTES).map(readImage));
+    setImages((prev) => [...prev, ...read].slice(0, MAX_IMAGES));
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const listingUrl = url.trim() || undefined;
+    if (mode === 'url') {
+      if (listingUrl) onSubmit({ kind: 'url', url: listingUrl });
+    } else if (mode === 'text') {
+      if (text.trim()) onSubmit({ kind: 'text', text: text.trim(), url: listingUrl });
+    } else if (images.length > 0) {
+      onSubmit({ kind: 'images', images, url: listingUrl });
+    }
+  };
+
+  const submitButton = (
+    <button 
+      type="submit"
+      disabled={isAnalyzing || (mode === 'text' && !text.trim()) || (mode === 'images' && images.length === 0)}
+      className={cn(
+        "px-6 py-3 bg-zinc-900 text-white rounded-xl font-medium hover:bg-zinc-800 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2",
+        mode === 'url' && "absolute right-3"
+      )}
+    >
+      {isAnalyzing ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : (
+        <>
+          Analyze
+          <ArrowRight className="w-4 h-4" />
+        </>
+      )}
+    </button>
+  );
+
+  const optionalUrlInput = (
+    <input
+      type="url"
+      placeholder="Listing URL (optional)"
+      value={url}
+      onChange={(e) => onUrlChange(e.target.value)}
+      className="flex-1 px-4 py-3 bg-white border-2 border-zinc-200 rounded-xl focus:outline-none focus:border-zinc-900 transition-all text-sm"
+    />
+  );
+
+  return (
+    <motion.form 
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      onSubmit={handleSubmit}
+      className="max-w-3xl mx-auto relative group"
+    >
+      <div className="flex justify-center gap-2 mb-4">
+        {MODES.map(({ mode: option, label, icon: Icon }) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onModeChange(option)}
+            className={cn(
+              "px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all",
+              mode === option ? "bg-zinc-900 text-white" : "text-zinc-500 hover:text-zinc-900 hover:bg-zinc-100"
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'url' && (
+        <div className="relative flex items-center">
+          <div className="absolute left-5 text-zinc-400 group-focus-within:text-zinc-900 transition-colors">
+            <Search className="w-5 h-5" />
+          </div>
+          <input 
+            type="url" 
+            required
+            placeholder="Paste car listing URL here..."
+            value={url}
+            onChange={(e) => onUrlChange(e.target.value)}
+            className="w-full pl-14 pr-36 py-5 bg-white border-2 border-zinc-200 rounded-2xl focus:outline-none focus:border-zinc-900 transition-all text-lg shadow-sm"
+          />
+          {submitButton}
+        </div>
+      )}
+
+      {mode === 'text' && (
+        <div className="space-y-3 text-left">
+          <textarea
+            required
+            rows={8}
+            placeholder="Paste the full listing text: title, price, mileage, description, seller notes..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="w-full p-5 bg-white border-2 border-zinc-200 rounded-2xl focus:outline-none focus:border-zinc-900 transition-all shadow-sm"
+          />
+          <div className="flex items-center gap-3">
+            {optionalUrlInput}
+            {submitButton}
+          </div>
+        </div>
+      )}
+
+      {mode === 'images' && (
+        <div className="space-y-3 text-left">
+          <div className="p-5 bg-white border-2 border-dashed border-zinc-200 rounded-2xl">
+            <div className="flex flex-wrap gap-3">
+              {images.map((image, i) => (
+                <div key={i} className="relative w-24 h-24 rounded-xl overflow-hidden border border-zinc-200">
+                  <img src={`data:${image.mimeType};base64,${image.data}`} alt={`Screenshot ${i + 1}`} className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setImages((prev) => prev.filter((_, index) => index !== i))}
+                    className="absolute top-1 right-1 p-0.5 bg-white/90 rounded-full text-zinc-600 hover:text-rose-500"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {images.length < MAX_IMAGES && (
+                <button
+                  type="button"
+                  onClick={() => fileInput.current?.click()}
+                  className="w-24 h-24 rounded-xl border-2 border-zinc-200 flex flex-col items-center justify-center gap-1 text-zinc-400 hover:text-zinc-900 hover:border-zinc-900 transition-all"
+                >
+                  <ImagePlus className="w-5 h-5" />
+                  <span className="text-[10px] font-bold uppercase">Add</span>
+                </button>
+              )}
+            </div>
+            <p className="mt-3 text-xs text-zinc-400">Up to {MAX_IMAGES} PNG, JPEG or WebP screenshots of the listing, 4 MB each.</p>
+            {fileError && <p className="mt-2 text-xs text-rose-600 font-medium">{fileError}</p>}
+            <input ref={fileInput} type="file" accept="image/png,image/jpeg,image/webp" multiple onChange={handleFiles} className="hidden" />
+          </div>
+          <div className="flex items-center gap-3">
+            {optionalUrlInput}
+            {submitButton}
+          </div>
+        </div>
+      )}
+    </motion.form>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Bookmark, Loader2, MessagesSquare, RotateCcw, Send } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { clearNegotiation, fetchNegotiation, sendNegotiationMessage } from '../services/api';
+import type { NegotiationMessage } from '../types';
+
+interface NegotiationCoachProps {
+  token: string;
+  /** The saved deal the transcript belongs to; the chat is unavailable until the deal is saved. */
+  dealId?: string;
+  onSaveDeal: () => void;
+  isSaving: boolean;
+  saveError?: string | null;
+}
+
+export default function NegotiationCoach({ token, dealId, onSaveDeal, isSaving, saveError }: NegotiationCoachProps) {
+  const [messages, setMessages] = useState<NegotiationMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setMessages([]);
+    setError(null);
+    if (!dealId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchNegotiation(dealId, token)
+      .then((loaded) => !cancelled && setMessages(loaded))
+      .catch((err) => !cancelled && setError(err.message))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [dealId, token]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, isSending]);
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!dealId || !draft.trim() || isSending) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const added = await sendNegotiationMessage(dealId, draft, token);
+      setMessages((prev) => [...prev, ...added]);
+      setDraft('');
+    } catch (err: any) {
+      setError(err.message || 'The coach could not reply. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!dealId || !window.confirm('Clear this negotiation transcript?')) return;
+    try {
+      await clearNegotiation(dealId, token);
+      setMessages([]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="font-display text-lg font-bold flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5 text-indigo-500" />
+          Negotiation Coach
+        </h4>
+        {messages.length > 0 && (
+          <button
+            onClick={handleReset}
+            className="text-xs font-bold text-zinc-400 hover:text-zinc-900 flex items-center gap-1 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Start over
+          </button>
+        )}
+      </div>
+
+      {!dealId ? (
+        <div className="text-center py-6">
+          <p className="text-sm text-zinc-500 mb-4">
+            Save this deal to start a coaching chat. The transcript is kept with the deal so you can pick the negotiation back up later.
+          </p>
+          <button
+            onClick={onSaveDeal}
+            disabled={isSaving}
+            className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold inline-flex items-center gap-2 hover:bg-zinc-800 transition-all"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bookmark className="w-4 h-4" />}
+            Save deal
+          </button>
+          {saveError && <p className="mt-3 text-xs text-rose-600 font-medium">{saveError}</p>}
+        </div>
+      ) : (
+        <>
+          <div className="max-h-[28rem] overflow-y-auto space-y-4 mb-4 pr-1">
+            {isLoading && <Loader2 className="w-5 h-5 animate-spin text-zinc-300 mx-auto" />}
+            {!isLoading && messages.length === 0 && (
+              <p className="text-sm text-zinc-400 italic">
+                Paste the seller's latest message, or ask how to open the conversation.
+              </p>
+            )}
+            {messages.map((message) => (
+              <div key={message.id} className={cn('flex', message.role === 'user' ? 'justify-end' : 'justify-start')}>
+                <div className={cn(
+                  'max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed',
+                  message.role === 'user'
+                    ? 'bg-zinc-900 text-white whitespace-pre-wrap'
+                    : 'bg-indigo-50/60 border border-indigo-100 text-zinc-700 prose prose-sm max-w-none'
+                )}>
+                  {message.role === 'user' ? message.text : <ReactMarkdown>{message.text}</ReactMarkdown>}
+                </div>
+              </div>
+            ))}
+            {isSending && (
+              <div className="flex items-center gap-2 text-xs text-zinc-400">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Coach is thinking…
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          <form onSubmit={handleSend} className="flex items-end gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) handleSend(e);
+              }}
+              rows={2}
+              placeholder="Seller: &quot;Lowest I can do is $17,000, lots of interest in this one.&quot;"
+              className="flex-1 px-4 py-3 bg-zinc-50 border border-zinc-200 rounded-2xl text-sm resize-none focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim() || isSending}
+              className="p-3 bg-indigo-600 text-white rounded-2xl hover:bg-indigo-500 disabled:opacity-30 transition-all"
+              title="Send"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        </>
+      )}
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
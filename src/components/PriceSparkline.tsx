@@ -0,0 +1,35 @@
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import type { PricePoint } from '../types';
+
+interface PriceSparklineProps {
+  history: PricePoint[];
+}
+
+export default function PriceSparkline({ history }: PriceSparklineProps) {
+  const points = history
+    .filter((point) => point.status === 'active' && point.price !== null)
+    .map((point) => ({ price: point.price as number, checkedAt: point.checkedAt }));
+
+  if (points.length < 2) return null;
+
+  const first = points[0].price;
+  const last = points[points.length - 1].price;
+  const color = last < first ? '#10b981' : last > first ? '#f43f5e' : '#94a3b8';
+
+  return (
+    <div className="h-10 w-28" title={`Price history since ${points[0].checkedAt.slice(0, 10)}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 4, right: 2, left: 2, bottom: 4 }}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Tooltip
+            cursor={false}
+            contentStyle={{ borderRadius: '8px', border: 'none', fontSize: 10, padding: '2px 6px' }}
+            labelFormatter={(_, payload) => payload?.[0]?.payload.checkedAt.slice(0, 10)}
+            formatter={(value: number) => [`$${value.toLocaleString()}`, 'Price']}
+          />
+          <Line type="monotone" dataKey="price" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { CheckCircle2, ChevronDown, ExternalLink, Flame, ShieldAlert, OctagonAlert } from 'lucide-react';
+import { normalizeRecall } from '../lib/recalls';
+import { cn } from '../lib/utils';
+import type { Recall } from '../types';
+
+interface RecallPanelProps {
+  recalls: Recall[];
+  excluded?: { campaignNumber: string; reason: string }[];
+}
+
+const COLLAPSED_COUNT = 3;
+
+function RecallDetail({ label, text }: { label: string; text: string }) {
+  if (!text) return null;
+  return (
+    <div>
+      <span className="block text-[10px] font-bold uppercase tracking-wider text-rose-400 mb-0.5">{label}</span>
+      <p className="text-xs text-rose-900 leading-relaxed">{text}</p>
+    </div>
+  );
+}
+
+export default function RecallPanel({ recalls: rawRecalls, excluded = [] }: RecallPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [openCampaign, setOpenCampaign] = useState<string | null>(null);
+
+  // Saved deals from before recalls were typed still carry raw NHTSA records.
+  const recalls = rawRecalls.map(normalizeRecall);
+  const visible = showAll ? recalls : recalls.slice(0, COLLAPSED_COUNT);
+
+  const excludedNote = excluded.length > 0 && (
+    <p className="text-[10px] text-zinc-400 text-center" title={excluded.map(e => `${e.campaignNumber}: ${e.reason}`).join('\n')}>
+      {excluded.length} model-wide recall{excluded.length === 1 ? '' : 's'} skipped as not matching this VIN's configuration
+    </p>
+  );
+
+  if (recalls.length === 0) {
+    return (
+      <div className="space-y-3">
+        <div className="p-6 bg-emerald-50 border border-emerald-100 rounded-2xl flex items-center gap-3 text-emerald-700">
+          <CheckCircle2 className="w-5 h-5" />
+          <span className="text-sm font-medium">No applicable recalls found</span>
+        </div>
+        {excludedNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {visible.map((recall, i) => {
+        const key = recall.campaignNumber || String(i);
+        const isOpen = openCampaign === key;
+        return (
+          <div key={key} className="bg-rose-50 border border-rose-100 rounded-2xl overflow-hidden">
+            <button
+              onClick={() => setOpenCampaign(isOpen ? null : key)}
+              className="w-full p-4 text-left flex items-start gap-3"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center flex-wrap gap-2 text-rose-700 font-bold text-xs mb-1">
+                  <ShieldAlert className="w-3 h-3" />
+                  {recall.campaignNumber}
+                  {recall.reportDate && <span className="font-medium text-rose-400">{recall.reportDate}</span>}
+                  {recall.parkIt && (
+                    <span className="flex items-center gap-1 px-1.5 py-0.5 bg-rose-600 text-white rounded text-[9px] uppercase">
+                      <OctagonAlert className="w-2.5 h-2.5" /> Do not drive
+                    </span>
+                  )}
+                  {recall.parkOutside && (
+                    <span className="flex items-center gap-1 px-1.5 py-0.5 bg-orange-500 text-white rounded text-[9px] uppercase">
+                      <Flame className="w-2.5 h-2.5" /> Park outside
+                    </span>
+                  )}
+                </div>
+                <p className="text-[10px] font-bold uppercase tracking-wider text-rose-500 mb-1">{recall.component}</p>
+                <p className={cn("text-xs text-rose-800", !isOpen && "line-clamp-2")}>{recall.summary}</p>
+              </div>
+              <ChevronDown className={cn("w-4 h-4 text-rose-400 shrink-0 transition-transform", isOpen && "rotate-180")} />
+            </button>
+            <AnimatePresence initial={false}>
+              {isOpen && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="px-4 pb-4 space-y-3"
+                >
+                  <RecallDetail label="Consequence" text={recall.consequence} />
+                  <RecallDetail label="Remedy" text={recall.remedy} />
+                  <div className="flex items-center justify-between text-[10px] font-medium">
+                    <span className={recall.remedyAvailable ? 'text-emerald-700' : 'text-rose-700'}>
+                      {recall.remedyAvailable ? 'Free remedy available' : 'Remedy not yet available'}
+                    </span>
+                    <span className="text-zinc-500">
+                      {recall.completion === 'closed' ? 'Completed on this VIN' : recall.completion === 'open' ? 'Open on this VIN' : 'Completion status unknown'}
+                    </span>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        );
+      })}
+
+      {recalls.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="w-full text-center text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-900 transition-colors"
+        >
+          {showAll ? 'Show fewer' : `Show all ${recalls.length} recalls`}
+        </button>
+      )}
+
+      <a
+        href="https://www.nhtsa.gov/recalls"
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center justify-center gap-1 text-[10px] text-zinc-400 hover:text-zinc-900"
+      >
+        Check whether repairs were completed for this VIN on nhtsa.gov
+        <ExternalLink className="w-3 h-3" />
+      </a>
+      {excludedNote}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { AlertOctagon, AlertTriangle, CheckCircle2, Info, ShieldAlert, type LucideIcon } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { RED_FLAG_SEVERITIES } from '../lib/redFlags';
+import SourceBadge from './SourceBadge';
+import type { CarAnalysis, RedFlagCategory, RedFlagSeverity } from '../types';
+
+interface RedFlagsCardProps {
+  analysis: CarAnalysis;
+}
+
+const SEVERITIES: Record<RedFlagSeverity, { label: string; icon: LucideIcon; iconStyle: string; itemStyle: string }> = {
+  critical: { label: 'Critical', icon: AlertOctagon, iconStyle: 'text-rose-600', itemStyle: 'border-rose-300 bg-rose-50' },
+  high: { label: 'High', icon: AlertTriangle, iconStyle: 'text-rose-500', itemStyle: 'border-rose-100 bg-white' },
+  medium: { label: 'Medium', icon: AlertTriangle, iconStyle: 'text-amber-500', itemStyle: 'border-amber-100 bg-white' },
+  low: { label: 'Low', icon: Info, iconStyle: 'text-zinc-400', itemStyle: 'border-zinc-100 bg-white' },
+};
+
+const CATEGORY_LABELS: Record<RedFlagCategory, string> = {
+  scam: 'Scam',
+  title: 'Title',
+  mechanical: 'Mechanical',
+  pricing: 'Pricing',
+  documentation: 'Documentation',
+  other: 'Other',
+};
+
+export default function RedFlagsCard({ analysis }: RedFlagsCardProps) {
+  // Keep each flag's original index: sources are stored as `redFlags.N`
+  const indexed = analysis.redFlags.map((flag, index) => ({ flag, index }));
+  const groups = RED_FLAG_SEVERITIES
+    .map(severity => ({ severity, items: indexed.filter(({ flag }) => flag.severity === severity) }))
+    .filter(group => group.items.length > 0);
+  const serious = analysis.redFlags.some(f => f.severity === 'critical' || f.severity === 'high');
+
+  return (
+    <div className={cn(
+      'glass-card rounded-3xl p-8 border-2',
+      serious ? 'border-rose-200 bg-rose-50/20' : analysis.redFlags.length > 0 ? 'border-amber-200 bg-amber-50/20' : 'border-emerald-100 bg-emerald-50/20'
+    )}>
+      <h4 className="font-display text-lg font-bold mb-6 flex items-center gap-2">
+        <ShieldAlert className={cn(
+          'w-5 h-5',
+          serious ? 'text-rose-500' : analysis.redFlags.length > 0 ? 'text-amber-500' : 'text-emerald-500'
+        )} />
+        Red Flags & Warnings
+      </h4>
+
+      {groups.length > 0 ? (
+        <div className="space-y-6">
+          {groups.map(({ severity, items }) => {
+            const { label, icon: Icon, iconStyle, itemStyle } = SEVERITIES[severity];
+            return (
+              <div key={severity}>
+                <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">
+                  {label} · {items.length}
+                </span>
+                <div className="space-y-3 mt-2">
+                  {items.map(({ flag, index }) => (
+                    <div key={index} className={cn('flex items-start gap-3 p-3 rounded-xl border shadow-sm', itemStyle)}>
+                      <Icon className={cn('w-4 h-4 shrink-0 mt-0.5', iconStyle)} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-zinc-700 font-medium leading-tight">{flag.message}</p>
+                        {flag.evidence && (
+                          <p className="mt-1.5 text-xs text-zinc-500 italic border-l-2 border-zinc-200 pl-2">“{flag.evidence}”</p>
+                        )}
+                        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                          <span className="px-1.5 py-px rounded bg-zinc-100 text-zinc-500 text-[9px] font-bold uppercase tracking-wider">
+                            {CATEGORY_LABELS[flag.category]}
+                          </span>
+                          {flag.rule && (
+                            <span
+                              className="px-1.5 py-px rounded bg-zinc-900 text-white text-[9px] font-bold uppercase tracking-wider"
+                              title={flag.source === 'rules' ? 'Raised by a built-in scam-pattern check' : 'Confirmed by a built-in scam-pattern check'}
+                            >
+                              {flag.source === 'rules' ? 'Rule check' : 'Rule confirmed'}
+                            </span>
+                          )}
+                          {flag.source === 'ai' && <SourceBadge source={analysis.sources?.[`redFlags.${index}`]} />}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-6">
+          <div className="w-12 h-12 bg-emerald-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <CheckCircle2 className="w-6 h-6 text-emerald-600" />
+          </div>
+          <p className="text-sm text-emerald-800 font-medium">No major red flags detected in the listing description.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { cn } from '../lib/utils';
+import type { DealScoreBreakdown } from '../types';
+
+interface ScoreBreakdownProps {
+  breakdown: DealScoreBreakdown;
+}
+
+function barColor(score: number) {
+  if (score >= 75) return 'bg-emerald-500';
+  if (score >= 50) return 'bg-amber-400';
+  return 'bg-rose-500';
+}
+
+export default function ScoreBreakdown({ breakdown }: ScoreBreakdownProps) {
+  return (
+    <div className="glass-card rounded-2xl p-4 w-full sm:w-72">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Score Breakdown</span>
+        <span className="text-[10px] font-medium text-zinc-400">weight</span>
+      </div>
+      <div className="space-y-2">
+        {breakdown.factors.map((factor) => (
+          <div key={factor.key} title={factor.detail} className="grid grid-cols-[6.5rem_1fr_2rem_2rem] items-center gap-2 text-xs">
+            <span className="text-zinc-600 font-medium truncate">{factor.label}</span>
+            <div className="h-1.5 bg-zinc-100 rounded-full overflow-hidden">
+              <div
+                className={cn("h-full rounded-full", barColor(factor.score))}
+                style={{ width: `${factor.score}%` }}
+              />
+            </div>
+            <span className="text-right font-bold text-zinc-900">{factor.score}</span>
+            <span className="text-right text-zinc-400">{Math.round(factor.weight * 100)}%</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, Link2, Loader2, Share2, Trash2 } from 'lucide-react';
+import { formatDate } from '../lib/dates';
+import { createShare, fetchShares, revokeShare } from '../services/api';
+import type { DealShare } from '../types';
+
+interface SharePanelProps {
+  token: string;
+  dealId: string;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+function shareUrl(share: DealShare): string {
+  return `${window.location.origin}/share/${share.token}`;
+}
+
+function formatExpiry(expiresAt: string | null): string {
+  if (!expiresAt) return 'No expiry';
+  return `Expires ${formatDate(expiresAt)}`;
+}
+
+export default function SharePanel({ token, dealId }: SharePanelProps) {
+  const [shares, setShares] = useState<DealShare[]>([]);
+  const [hidePitch, setHidePitch] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setShares([]);
+    fetchShares(dealId, token)
+      .then((loaded) => !cancelled && setShares(loaded))
+      .catch((err) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [dealId, token]);
+
+  const copy = async (share: DealShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId((id) => (id === share.id ? null : id)), 2000);
+    } catch {
+      window.prompt('Copy this link:', shareUrl(share));
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const share = await createShare(dealId, { hidePitch, expiresInDays }, token);
+      setShares((prev) => [share, ...prev]);
+      await copy(share);
+    } catch (err: any) {
+      setError(err.message || 'Could not create a share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: DealShare) => {
+    if (!window.confirm('Revoke this link? Anyone who has it will no longer be able to open the deal.')) return;
+    try {
+      await revokeShare(dealId, share.id, token);
+      setShares((prev) => prev.filter((s) => s.id !== share.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <h4 className="font-display text-lg font-bold mb-2 flex items-center gap-2">
+        <Share2 className="w-5 h-5 text-zinc-400" />
+        Share
+      </h4>
+      <p className="text-xs text-zinc-500 mb-5">
+        Anyone with the link can view this analysis without an account. Your coaching chat and watch settings are never shared.
+      </p>
+
+      <div className="space-y-3 mb-5">
+        <label className="flex items-center gap-2 text-sm text-zinc-600">
+          <input
+            type="checkbox"
+            checked={hidePitch}
+            onChange={(e) => setHidePitch(e.target.checked)}
+            className="rounded border-zinc-300"
+          />
+          Hide my negotiation pitch and price targets
+        </label>
+        <div className="flex gap-2">
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className="flex-1 px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="px-4 py-2 bg-zinc-900 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-zinc-800 disabled:opacity-50 transition-all"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create link
+          </button>
+        </div>
+      </div>
+
+      {shares.length > 0 && (
+        <ul className="space-y-2">
+          {shares.map((share) => (
+            <li key={share.id} className="flex items-center gap-2 p-3 bg-zinc-50 rounded-xl border border-zinc-100">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-mono text-zinc-600 truncate">{shareUrl(share)}</p>
+                <p className="text-[10px] text-zinc-400">
+                  {formatExpiry(share.expiresAt)}{share.hidePitch && ' · pitch hidden'}
+                </p>
+              </div>
+              <button onClick={() => copy(share)} className="p-1.5 text-zinc-400 hover:text-zinc-900 transition-colors" title="Copy link">
+                {copiedId === share.id ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button onClick={() => handleRevoke(share)} className="p-1.5 text-zinc-400 hover:text-rose-600 transition-colors" title="Revoke link">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-3 text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Car, ExternalLink, FileDown, Link2Off, Loader2 } from 'lucide-react';
+import DealReport from './DealReport';
+import { formatDate } from '../lib/dates';
+import { printAnalysisReport } from '../lib/report';
+import { fetchSharedDeal } from '../services/api';
+import type { SharedDeal } from '../types';
+
+interface SharedDealViewProps {
+  shareToken: string;
+}
+
+/** The page behind a /share/<token> link: the deal, read-only, without logging in. */
+export default function SharedDealView({ shareToken }: SharedDealViewProps) {
+  const [deal, setDeal] = useState<SharedDeal | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedDeal(shareToken)
+      .then(setDeal)
+      .catch((err) => setError(err.message || 'Could not load this deal'));
+  }, [shareToken]);
+
+  return (
+    <div className="min-h-screen font-sans bg-zinc-50 print:bg-white">
+      <header className="glass-card border-b border-zinc-200/50 px-6 py-4 print:hidden">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <a href="/" className="flex items-center gap-2">
+            <div className="bg-zinc-900 p-2 rounded-lg">
+              <Car className="w-6 h-6 text-white" />
+            </div>
+            <span className="font-display text-xl font-bold tracking-tight">
+              CarDeal<span className="text-zinc-500">Scout</span>
+            </span>
+          </a>
+          {deal && (
+            <div className="flex items-center gap-2">
+              {deal.url && (
+                <a
+                  href={deal.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1.5 text-zinc-600 hover:text-zinc-900 transition-colors"
+                >
+                  View listing
+                  <ExternalLink className="w-3.5 h-3.5" />
+                </a>
+              )}
+              <button
+                onClick={() => printAnalysisReport(deal)}
+                className="px-3 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1.5 bg-zinc-900 text-white hover:bg-zinc-700 transition-all"
+              >
+                <FileDown className="w-3.5 h-3.5" />
+                Download report
+              </button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="px-6 py-10 print:p-0">
+        {!deal && !error && <Loader2 className="w-6 h-6 animate-spin text-zinc-300 mx-auto mt-20" />}
+        {error && (
+          <div className="max-w-md mx-auto mt-20 text-center">
+            <div className="w-12 h-12 bg-zinc-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Link2Off className="w-6 h-6 text-zinc-400" />
+            </div>
+            <p className="font-bold mb-2">{error}</p>
+            <p className="text-sm text-zinc-500">Ask whoever sent you this link for a new one.</p>
+          </div>
+        )}
+        {deal && (
+          <div className="glass-card rounded-3xl p-10 max-w-3xl mx-auto print:p-0 print:border-0 print:shadow-none">
+            <p className="text-xs text-zinc-400 mb-6 print:hidden">
+              Shared read-only{deal.expiresAt && ` · link expires ${formatDate(deal.expiresAt)}`}
+            </p>
+            <DealReport analysis={deal} onScreen hidePitch={deal.hidePitch} />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { ExternalLink } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { FieldOrigin, FieldSource } from '../types';
+
+interface SourceBadgeProps {
+  source?: FieldSource;
+  className?: string;
+}
+
+const ORIGINS: Record<FieldOrigin, { label: string; style: string; hint: string }> = {
+  extracted: {
+    label: 'Listing',
+    style: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+    hint: 'Read directly from the listing page',
+  },
+  inferred: {
+    label: 'AI read',
+    style: 'bg-sky-50 text-sky-700 border-sky-100',
+    hint: 'Read or worked out by the AI from the listing',
+  },
+  search: {
+    label: 'Search',
+    style: 'bg-violet-50 text-violet-700 border-violet-100',
+    hint: 'Taken from a Google Search result',
+  },
+  estimated: {
+    label: 'Estimate',
+    style: 'bg-amber-50 text-amber-700 border-amber-100',
+    hint: 'Not stated anywhere; the AI estimated it from the model and year',
+  },
+};
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+export default function SourceBadge({ source, className }: SourceBadgeProps) {
+  if (!source) return null;
+  const { label, style, hint } = ORIGINS[source.origin];
+
+  return (
+    <span className={cn('relative inline-flex group align-middle', className)}>
+      <span
+        tabIndex={0}
+        className={cn(
+          'inline-flex items-center px-1.5 py-px rounded border text-[9px] font-bold uppercase tracking-wider cursor-help',
+          style,
+        )}
+      >
+        {label}
+      </span>
+      <span className="invisible opacity-0 group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute left-0 top-full z-20 pt-1">
+        <span className="block w-60 p-3 bg-white rounded-xl border border-zinc-200 shadow-lg text-left normal-case tracking-normal font-normal">
+          <span className="block text-xs text-zinc-700">{hint}</span>
+          <span className="block text-[10px] text-zinc-400 mt-1">
+            Confidence {Math.round(source.confidence * 100)}%
+          </span>
+          {source.citations.length > 0 && (
+            <span className="block mt-2 space-y-1">
+              {source.citations.map((citation) => (
+                <a
+                  key={citation.url}
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-[11px] text-indigo-600 hover:underline truncate"
+                >
+                  <ExternalLink className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{citation.title || hostname(citation.url)}</span>
+                </a>
+              ))}
+            </span>
+          )}
+        </span>
+      </span>
+    </span>
+  );
+}
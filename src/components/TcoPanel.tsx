@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Calculator, Check, Loader2, Save } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { calculateTco, defaultTcoInputs } from '../lib/tco';
+import type { CarAnalysis, TcoEstimate, TcoInputs, TcoResult } from '../types';
+
+interface TcoPanelProps {
+  analysis: CarAnalysis;
+  onChange: (estimate: TcoEstimate) => void;
+  /** Inputs currently stored on the saved deal; omitted for unsaved analyses. */
+  savedInputs?: TcoInputs;
+  onSave?: (inputs: TcoInputs) => Promise<void>;
+}
+
+const COST_ROWS: { key: keyof TcoResult['breakdown']; label: string; color: string }[] = [
+  { key: 'depreciation', label: 'Depreciation', color: 'bg-zinc-900' },
+  { key: 'financing', label: 'Loan interest', color: 'bg-indigo-500' },
+  { key: 'fuel', label: 'Fuel / charging', color: 'bg-amber-400' },
+  { key: 'insurance', label: 'Insurance', color: 'bg-sky-500' },
+  { key: 'taxesAndFees', label: 'Tax & registration', color: 'bg-rose-400' },
+  { key: 'maintenance', label: 'Maintenance', color: 'bg-emerald-500' },
+];
+
+const FIELDS: { key: Exclude<keyof TcoInputs, 'zip'>; label: string; step: number; prefix?: string; suffix?: string }[] = [
+  { key: 'annualMiles', label: 'Miles / year', step: 1000 },
+  { key: 'downPayment', label: 'Down payment', step: 500, prefix: '$' },
+  { key: 'apr', label: 'Loan APR', step: 0.25, suffix: '%' },
+  { key: 'termMonths', label: 'Term', step: 12, suffix: 'mo' },
+];
+
+function sameInputs(a?: TcoInputs, b?: TcoInputs): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export default function TcoPanel({ analysis, onChange, savedInputs, onSave }: TcoPanelProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const inputs = analysis.tco?.inputs ?? defaultTcoInputs(analysis);
+  const result = analysis.tco?.result ?? calculateTco(analysis, inputs);
+  const isDirty = Boolean(onSave) && !sameInputs(inputs, savedInputs);
+
+  const update = (patch: Partial<TcoInputs>) => {
+    const next = { ...inputs, ...patch };
+    onChange({ inputs: next, result: calculateTco(analysis, next), calculatedAt: new Date().toISOString() });
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(inputs);
+    } catch (err: any) {
+      setSaveError(err.message || 'Could not save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="font-display text-lg font-bold flex items-center gap-2">
+          <Calculator className="w-5 h-5 text-zinc-400" />
+          {result.years}-Year Cost of Ownership
+        </h4>
+        {onSave && (
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-3 py-1.5 text-xs font-bold rounded-lg flex items-center gap-1.5 bg-zinc-900 text-white hover:bg-zinc-700 disabled:bg-zinc-100 disabled:text-zinc-400 transition-all"
+          >
+            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : isDirty ? <Save className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />}
+            {isDirty ? 'Save to deal' : 'Saved'}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-8">
+        <label className="block">
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">ZIP</span>
+          <input
+            value={inputs.zip}
+            onChange={(e) => update({ zip: e.target.value.replace(/\D/g, '').slice(0, 5) })}
+            placeholder="e.g. 95814"
+            inputMode="numeric"
+            className="mt-1 w-full px-3 py-2 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+          />
+        </label>
+        {FIELDS.map((field) => (
+          <label key={field.key} className="block">
+            <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{field.label}</span>
+            <div className="mt-1 flex items-center bg-zinc-50 border border-zinc-200 rounded-xl focus-within:ring-2 focus-within:ring-zinc-900/10">
+              {field.prefix && <span className="pl-3 text-sm text-zinc-400">{field.prefix}</span>}
+              <input
+                type="number"
+                min={0}
+                step={field.step}
+                value={inputs[field.key]}
+                onChange={(e) => update({ [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 bg-transparent text-sm focus:outline-none"
+              />
+              {field.suffix && <span className="pr-3 text-sm text-zinc-400">{field.suffix}</span>}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-4">
+        <div>
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Projected total</span>
+          <div className="text-3xl font-display font-bold">${result.total.toLocaleString()}</div>
+          <span className="text-sm text-zinc-500">
+            ≈ ${result.perMonth.toLocaleString()}/mo all-in
+            {result.monthlyPayment > 0 && ` · $${result.monthlyPayment.toLocaleString()}/mo loan payment`}
+          </span>
+        </div>
+        <div className="text-sm text-zinc-500 md:text-right">
+          Estimated resale after {result.years} years
+          <div className="font-bold text-zinc-900">${result.resaleValue.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div className="flex h-3 rounded-full overflow-hidden mb-4 bg-zinc-100">
+        {COST_ROWS.map((row) => (
+          <div
+            key={row.key}
+            className={row.color}
+            style={{ width: `${result.total ? (result.breakdown[row.key] / result.total) * 100 : 0}%` }}
+            title={`${row.label}: $${result.breakdown[row.key].toLocaleString()}`}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 mb-6">
+        {COST_ROWS.map((row) => (
+          <div key={row.key} className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-zinc-600">
+              <span className={cn('w-2 h-2 rounded-full', row.color)} />
+              {row.label}
+            </span>
+            <span className="font-bold">${result.breakdown[row.key].toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+
+      <ul className="text-[11px] text-zinc-400 space-y-0.5">
+        {result.assumptions.map((assumption) => (
+          <li key={assumption}>· {assumption}</li>
+        ))}
+      </ul>
+      {saveError && <p className="mt-3 text-xs text-rose-600 font-medium">{saveError}</p>}
+    </div>
+  );
+}
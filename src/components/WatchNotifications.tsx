@@ -0,0 +1,51 @@
+import { Bell, TrendingDown, TrendingUp, EyeOff, RotateCcw } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { WatchNotification } from '../types';
+
+interface WatchNotificationsProps {
+  notifications: WatchNotification[];
+  onMarkAllRead: () => void;
+}
+
+const KIND_STYLES: Record<WatchNotification['kind'], { icon: typeof Bell; className: string }> = {
+  price_drop: { icon: TrendingDown, className: 'text-emerald-600 bg-emerald-50' },
+  price_increase: { icon: TrendingUp, className: 'text-rose-600 bg-rose-50' },
+  delisted: { icon: EyeOff, className: 'text-zinc-600 bg-zinc-100' },
+  relisted: { icon: RotateCcw, className: 'text-blue-600 bg-blue-50' },
+};
+
+export default function WatchNotifications({ notifications, onMarkAllRead }: WatchNotificationsProps) {
+  const unread = notifications.filter((n) => !n.readAt);
+  if (unread.length === 0) return null;
+
+  return (
+    <div className="glass-card rounded-3xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-display font-bold flex items-center gap-2">
+          <Bell className="w-4 h-4 text-zinc-400" />
+          Watchlist Updates
+        </h4>
+        <button
+          onClick={onMarkAllRead}
+          className="text-xs font-medium text-zinc-400 hover:text-zinc-900 transition-colors"
+        >
+          Mark all read
+        </button>
+      </div>
+      <div className="space-y-2">
+        {unread.map((notification) => {
+          const { icon: Icon, className } = KIND_STYLES[notification.kind];
+          return (
+            <div key={notification.id} className="flex items-center gap-3 text-sm">
+              <div className={cn("p-1.5 rounded-lg shrink-0", className)}>
+                <Icon className="w-3.5 h-3.5" />
+              </div>
+              <span className="flex-1 text-zinc-700">{notification.message}</span>
+              <span className="text-[10px] text-zinc-400 shrink-0">{notification.createdAt.slice(0, 10)}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
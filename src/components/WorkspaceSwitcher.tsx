@@ -0,0 +1,272 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Check, LogOut, Mail, Plus, User, Users, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  acceptWorkspaceInvite,
+  createWorkspace,
+  declineWorkspaceInvite,
+  fetchWorkspaceInvites,
+  fetchWorkspaceMembers,
+  inviteToWorkspace,
+  leaveWorkspace,
+  removeWorkspaceMember,
+  revokeWorkspaceInvite,
+} from '../services/api';
+import type { Workspace, WorkspaceInvite, WorkspaceMember } from '../types';
+
+interface WorkspaceSwitcherProps {
+  token: string;
+  workspaces: Workspace[];
+  /** null is the user's personal list. */
+  activeWorkspaceId: number | null;
+  onSelect: (workspaceId: number | null) => void;
+  /** Called after the user creates, joins or leaves a workspace, or removes a member from one. */
+  onWorkspacesChange: () => Promise<void>;
+}
+
+export default function WorkspaceSwitcher({ token, workspaces, activeWorkspaceId, onSelect, onWorkspacesChange }: WorkspaceSwitcherProps) {
+  const [pendingInvites, setPendingInvites] = useState<WorkspaceInvite[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [sentInvites, setSentInvites] = useState<WorkspaceInvite[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const active = workspaces.find((workspace) => workspace.id === activeWorkspaceId);
+  const isOwner = active?.role === 'owner';
+
+  useEffect(() => {
+    fetchWorkspaceInvites(token)
+      .then(setPendingInvites)
+      .catch((err) => setError(err.message));
+  }, [token]);
+
+  useEffect(() => {
+    setMembers([]);
+    setSentInvites([]);
+    if (activeWorkspaceId === null) return;
+
+    let cancelled = false;
+    fetchWorkspaceMembers(activeWorkspaceId, token)
+      .then((loaded) => {
+        if (cancelled) return;
+        setMembers(loaded.members);
+        setSentInvites(loaded.invites);
+      })
+      .catch((err) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWorkspaceId, token]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setError(null);
+    try {
+      const workspace = await createWorkspace(newName, token);
+      setNewName('');
+      setIsCreating(false);
+      await onWorkspacesChange();
+      onSelect(workspace.id);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (activeWorkspaceId === null || !inviteEmail.trim()) return;
+    setError(null);
+    try {
+      const invite = await inviteToWorkspace(activeWorkspaceId, inviteEmail, token);
+      setSentInvites((prev) => [...prev.filter((i) => i.id !== invite.id), invite]);
+      setInviteEmail('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleAnswer = async (invite: WorkspaceInvite, accept: boolean) => {
+    setError(null);
+    try {
+      if (accept) {
+        await acceptWorkspaceInvite(invite.id, token);
+      } else {
+        await declineWorkspaceInvite(invite.id, token);
+      }
+      setPendingInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      if (accept) {
+        await onWorkspacesChange();
+        onSelect(invite.workspaceId);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!active || !window.confirm(`Leave ${active.name}? Deals you saved there move back to your personal list.`)) return;
+    setError(null);
+    try {
+      await leaveWorkspace(active.id, token);
+      onSelect(null);
+      await onWorkspacesChange();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!active || !window.confirm(`Remove ${member.email} from ${active.name}? Deals they saved there move back to their personal list.`)) return;
+    setError(null);
+    try {
+      await removeWorkspaceMember(active.id, member.userId, token);
+      setMembers((prev) => prev.filter((m) => m.userId !== member.userId));
+      await onWorkspacesChange();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: WorkspaceInvite) => {
+    if (!active) return;
+    setError(null);
+    try {
+      await revokeWorkspaceInvite(active.id, invite.id, token);
+      setSentInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onSelect(null)}
+          className={cn(
+            "px-3 py-1.5 rounded-xl text-sm font-bold flex items-center gap-1.5 transition-all",
+            activeWorkspaceId === null ? "bg-zinc-900 text-white" : "bg-zinc-100 text-zinc-500 hover:text-zinc-900"
+          )}
+        >
+          <User className="w-3.5 h-3.5" />
+          Personal
+        </button>
+        {workspaces.map((workspace) => (
+          <button
+            key={workspace.id}
+            onClick={() => onSelect(workspace.id)}
+            className={cn(
+              "px-3 py-1.5 rounded-xl text-sm font-bold flex items-center gap-1.5 transition-all",
+              activeWorkspaceId === workspace.id ? "bg-zinc-900 text-white" : "bg-zinc-100 text-zinc-500 hover:text-zinc-900"
+            )}
+          >
+            <Users className="w-3.5 h-3.5" />
+            {workspace.name}
+            <span className="text-[10px] opacity-60">{workspace.memberCount}</span>
+          </button>
+        ))}
+        {isCreating ? (
+          <form onSubmit={handleCreate} className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Team name"
+              maxLength={80}
+              className="px-3 py-1.5 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+            />
+            <button type="submit" className="p-1.5 text-zinc-400 hover:text-emerald-600 transition-colors" title="Create workspace">
+              <Check className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => setIsCreating(false)} className="p-1.5 text-zinc-400 hover:text-zinc-900 transition-colors" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="px-3 py-1.5 rounded-xl text-sm font-medium text-zinc-400 hover:text-zinc-900 flex items-center gap-1.5 transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            New workspace
+          </button>
+        )}
+      </div>
+
+      {pendingInvites.map((invite) => (
+        <div key={invite.id} className="flex items-center gap-3 p-3 bg-blue-50 rounded-xl border border-blue-100 text-sm">
+          <Mail className="w-4 h-4 text-blue-500 shrink-0" />
+          <span className="flex-1 text-blue-900">
+            <span className="font-bold">{invite.invitedBy}</span> invited you to <span className="font-bold">{invite.workspaceName}</span>
+          </span>
+          <button
+            onClick={() => handleAnswer(invite, true)}
+            className="px-3 py-1 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors"
+          >
+            Join
+          </button>
+          <button
+            onClick={() => handleAnswer(invite, false)}
+            className="px-3 py-1 text-blue-600 rounded-lg text-xs font-bold hover:bg-blue-100 transition-colors"
+          >
+            Decline
+          </button>
+        </div>
+      ))}
+
+      {active && (
+        <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-zinc-100">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {members.map((member) => (
+              <span key={member.userId} className="px-2 py-1 bg-zinc-100 rounded-lg text-zinc-600 flex items-center gap-1">
+                {member.email}{member.role === 'owner' && ' · owner'}
+                {isOwner && member.role !== 'owner' && (
+                  <button onClick={() => handleRemoveMember(member)} className="text-zinc-400 hover:text-rose-600" title="Remove from workspace">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+            {sentInvites.map((invite) => (
+              <span key={invite.id} className="px-2 py-1 border border-dashed border-zinc-200 rounded-lg text-zinc-400 flex items-center gap-1" title={`Invited by ${invite.invitedBy}`}>
+                {invite.email} · invited
+                {isOwner && (
+                  <button onClick={() => handleRevokeInvite(invite)} className="hover:text-rose-600" title="Revoke invite">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <form onSubmit={handleInvite} className="flex items-center gap-2">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="teammate@example.com"
+                className="px-3 py-1.5 bg-zinc-50 border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-zinc-900/10"
+              />
+              <button
+                type="submit"
+                disabled={!inviteEmail.trim()}
+                className="px-3 py-1.5 bg-zinc-900 text-white rounded-xl text-sm font-bold hover:bg-zinc-800 disabled:opacity-30 transition-all"
+              >
+                Invite
+              </button>
+            </form>
+            {!isOwner && (
+              <button onClick={handleLeave} className="p-1.5 text-zinc-400 hover:text-rose-600 transition-colors" title="Leave workspace">
+                <LogOut className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-rose-600 font-medium">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { AnalysisChange, CarAnalysis } from '../types';
+
+type Value = string | number | null;
+
+// The fields a buyer would notice changing between two runs on the same car
+const COMPARED_FIELDS: { field: string; label: string; read: (analysis: CarAnalysis) => Value }[] = [
+  { field: 'price', label: 'Price', read: (a) => a.price },
+  { field: 'mileage', label: 'Mileage', read: (a) => a.mileage },
+  { field: 'dealScore', label: 'Deal score', read: (a) => a.dealScore },
+  { field: 'dealRating', label: 'Rating', read: (a) => a.dealRating },
+  { field: 'marketComparison.averagePrice', label: 'Market average', read: (a) => a.marketComparison?.averagePrice ?? null },
+  { field: 'marketComparison.lowPrice', label: 'Market low', read: (a) => a.marketComparison?.lowPrice ?? null },
+  { field: 'marketComparison.highPrice', label: 'Market high', read: (a) => a.marketComparison?.highPrice ?? null },
+  { field: 'location', label: 'Location', read: (a) => a.location || null },
+  { field: 'condition', label: 'Condition', read: (a) => a.condition || null },
+  { field: 'vin', label: 'VIN', read: (a) => a.vin || null },
+  { field: 'vinData.recalls', label: 'Recalls', read: (a) => a.vinData?.recalls?.length ?? null },
+];
+
+/** What changed from `before` to `after`, including red flags raised or cleared. */
+export function diffAnalyses(before: CarAnalysis, after: CarAnalysis): AnalysisChange[] {
+  const changes: AnalysisChange[] = [];
+  for (const { field, label, read } of COMPARED_FIELDS) {
+    const was = read(before);
+    const now = read(after);
+    if (was !== now) changes.push({ field, label, before: was, after: now });
+  }
+
+  const flagKey = (message: string) => message.trim().toLowerCase();
+  const beforeFlags = new Set((before.redFlags ?? []).map((flag) => flagKey(flag.message)));
+  const afterFlags = new Set((after.redFlags ?? []).map((flag) => flagKey(flag.message)));
+  for (const flag of after.redFlags ?? []) {
+    if (!beforeFlags.has(flagKey(flag.message))) {
+      changes.push({ field: 'redFlags', label: 'New red flag', before: null, after: flag.message });
+    }
+  }
+  for (const flag of before.redFlags ?? []) {
+    if (!afterFlags.has(flagKey(flag.message))) {
+      changes.push({ field: 'redFlags', label: 'Red flag cleared', before: flag.message, after: null });
+    }
+  }
+  return changes;
+}
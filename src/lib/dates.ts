@@ -0,0 +1,14 @@
+// SQLite datetimes are UTC without a zone marker ("2024-05-01 17:30:00")
+export function parseSqliteDate(value: string): Date {
+  return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+/** A SQLite datetime as a local date and time, e.g. "May 1, 2024, 10:30 AM". */
+export function formatDateTime(value: string): string {
+  return parseSqliteDate(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** A SQLite datetime as a local date. */
+export function formatDate(value: string): string {
+  return parseSqliteDate(value).toLocaleDateString();
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { scoreDeal, scoreTitleStatus } from './dealScoring';
+import type { CarAnalysis, Recall } from '../types';
+
+// At market price, with the expected mileage for a 2019 car scored in 2026
+function analysis(overrides: Partial<CarAnalysis> = {}): CarAnalysis {
+  return {
+    make: 'Honda',
+    model: 'Civic',
+    year: 2019,
+    price: 15000,
+    mileage: 84000,
+    location: 'Portland, OR',
+    condition: 'Good',
+    dealRating: 'Good',
+    dealScore: 70,
+    summary: '',
+    redFlags: [],
+    pros: [],
+    cons: [],
+    marketComparison: { averagePrice: 15000, lowPrice: 13000, highPrice: 17000, similarCarsCount: 12 },
+    negotiationPitch: '',
+    ...overrides,
+  };
+}
+
+function recall(campaignNumber: string, completion: Recall['completion']): Recall {
+  return {
+    campaignNumber,
+    component: 'FUEL SYSTEM',
+    summary: '',
+    consequence: '',
+    remedy: '',
+    parkIt: false,
+    parkOutside: false,
+    remedyAvailable: true,
+    completion,
+  };
+}
+
+describe('scoreDeal', () => {
+  it('weighs every factor that has data', () => {
+    const breakdown = scoreDeal(analysis(), { referenceYear: 2026 });
+
+    expect(breakdown.factors.map(f => [f.key, f.score])).toEqual([
+      ['price', 50],
+      ['mileage', 50],
+      ['age', 51],
+      ['title', 60],
+      ['redFlags', 100],
+      ['ai', 70],
+    ]);
+    expect(breakdown.score).toBe(60);
+    expect(breakdown.rating).toBe('Fair');
+    expect(breakdown.aiScore).toBe(70);
+  });
+
+  it('renormalizes the weights of the factors that are left', () => {
+    const { factors } = scoreDeal(analysis({ price: 0, vinData: { recalls: [] } }), { referenceYear: 2026 });
+
+    expect(factors.map(f => f.key)).not.toContain('price');
+    expect(factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1);
+    expect(factors.find(f => f.key === 'recalls')).toMatchObject({ score: 100, detail: 'None found' });
+  });
+
+  it('scores a cheap, low-mileage car higher', () => {
+    const breakdown = scoreDeal(analysis({ price: 12000, mileage: 30000, vinData: { titleStatus: 'Clean' } }), { referenceYear: 2026 });
+
+    expect(breakdown.factors.find(f => f.key === 'price')).toMatchObject({ score: 100, detail: '20% below average' });
+    expect(breakdown.rating).toBe('Great');
+  });
+
+  it('takes red flags and unrepaired recalls off their factors', () => {
+    const { factors } = scoreDeal(analysis({
+      redFlags: [
+        { category: 'mechanical', severity: 'high', message: 'Check engine light is on', source: 'ai' },
+        { category: 'other', severity: 'low', message: 'Scratched bumper', source: 'ai' },
+      ],
+      vinData: {
+        recalls: [
+          recall('19V123000', 'unknown'),
+          recall('20V456000', 'open'),
+        ],
+      },
+    }), { referenceYear: 2026 });
+
+    expect(factors.find(f => f.key === 'redFlags')).toMatchObject({ score: 65, detail: '1 high, 1 low' });
+    expect(factors.find(f => f.key === 'recalls')).toMatchObject({ score: 80, detail: '1 open, 1 not confirmed repaired' });
+  });
+
+  it('prefers an explicit aiScore over the stored deal score', () => {
+    expect(scoreDeal(analysis(), { aiScore: 90, referenceYear: 2026 }).aiScore).toBe(90);
+    expect(scoreDeal(analysis({ scoreBreakdown: { score: 60, rating: 'Fair', factors: [], aiScore: 40 } }), { referenceYear: 2026 }).aiScore).toBe(40);
+  });
+
+  it('rates a deal Suspicious on a critical scam flag or the model\'s verdict', () => {
+    const scam = analysis({
+      price: 9000,
+      redFlags: [{ category: 'scam', severity: 'critical', message: 'Wants payment in gift cards', source: 'rules' }],
+    });
+    expect(scoreDeal(scam, { referenceYear: 2026 }).rating).toBe('Suspicious');
+    expect(scoreDeal(analysis({ dealRating: 'Suspicious' }), { referenceYear: 2026 }).rating).toBe('Suspicious');
+  });
+});
+
+describe('scoreTitleStatus', () => {
+  it('scores branded titles below clean ones', () => {
+    expect(scoreTitleStatus('Clean')).toBe(100);
+    expect(scoreTitleStatus('Rebuilt')).toBe(25);
+    expect(scoreTitleStatus('Salvage')).toBe(0);
+    expect(scoreTitleStatus('Flood damage')).toBe(0);
+    expect(scoreTitleStatus(undefined)).toBe(60);
+  });
+});
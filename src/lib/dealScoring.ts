@@ -0,0 +1,172 @@
+import { RED_FLAG_SEVERITIES } from './redFlags';
+import type { CarAnalysis, DealScoreBreakdown, RedFlagSeverity, ScoreFactor } from '../types';
+
+const TYPICAL_MILES_PER_YEAR = 12000;
+
+// Relative importance of each factor. Factors without data are dropped and
+// the remaining weights are renormalized, so the score is always 0-100.
+const WEIGHTS: Record<ScoreFactor['key'], number> = {
+  price: 0.3,
+  mileage: 0.15,
+  age: 0.1,
+  title: 0.15,
+  recalls: 0.05,
+  redFlags: 0.1,
+  ai: 0.15,
+};
+
+// Points each red flag takes off the red flag factor
+const RED_FLAG_PENALTIES: Record<RedFlagSeverity, number> = {
+  critical: 60,
+  high: 30,
+  medium: 15,
+  low: 5,
+};
+
+function clamp(value: number, min = 0, max = 100): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.abs(Math.round(ratio * 100))}%`;
+}
+
+function priceFactor(analysis: CarAnalysis): Omit<ScoreFactor, 'weight'> | null {
+  const average = analysis.marketComparison?.averagePrice;
+  if (!analysis.price || !average) return null;
+  // 20% under market scores 100, at market 50, 20% over 0.
+  const delta = (average - analysis.price) / average;
+  return {
+    key: 'price',
+    label: 'Price vs. market',
+    score: clamp(50 + delta * 250),
+    detail: delta >= 0 ? `${formatPercent(delta)} below average` : `${formatPercent(delta)} above average`,
+  };
+}
+
+function mileageFactor(analysis: CarAnalysis, referenceYear: number): Omit<ScoreFactor, 'weight'> | null {
+  if (!analysis.year || analysis.mileage === undefined || analysis.mileage === null) return null;
+  const expected = Math.max(1, referenceYear - analysis.year) * TYPICAL_MILES_PER_YEAR;
+  // Half the expected miles scores 100, expected 50, one and a half times 0.
+  const ratio = analysis.mileage / expected;
+  return {
+    key: 'mileage',
+    label: 'Mileage for age',
+    score: clamp(50 + (1 - ratio) * 100),
+    detail: `${Math.round(ratio * 100)}% of the ~${expected.toLocaleString()} mi expected`,
+  };
+}
+
+function ageFactor(analysis: CarAnalysis, referenceYear: number): Omit<ScoreFactor, 'weight'> | null {
+  if (!analysis.year) return null;
+  const age = Math.max(0, referenceYear - analysis.year);
+  return {
+    key: 'age',
+    label: 'Vehicle age',
+    score: clamp(100 - age * 7),
+    detail: age === 0 ? 'Current model year' : `${age} year${age === 1 ? '' : 's'} old`,
+  };
+}
+
+/** 100 for a clean title, 0 for salvage/flood brands, 60 when unknown. */
+export function scoreTitleStatus(titleStatus?: string): number {
+  const status = titleStatus?.toLowerCase() || '';
+  if (/salvage|flood|junk|lemon|total/.test(status)) return 0;
+  if (/rebuilt|reconstructed|restored/.test(status)) return 25;
+  if (status.includes('clean')) return 100;
+  return 60;
+}
+
+function titleFactor(analysis: CarAnalysis): Omit<ScoreFactor, 'weight'> {
+  return {
+    key: 'title',
+    label: 'Title status',
+    score: scoreTitleStatus(analysis.vinData?.titleStatus),
+    detail: analysis.vinData?.titleStatus || 'Unknown',
+  };
+}
+
+// NHTSA's public API does not say whether a recall was repaired on this VIN, so a
+// recall of unknown completion costs less than one known to be open.
+function recallFactor(analysis: CarAnalysis): Omit<ScoreFactor, 'weight'> | null {
+  const recalls = analysis.vinData?.recalls;
+  if (!recalls) return null;
+  const open = recalls.filter(recall => recall.completion === 'open').length;
+  const unknown = recalls.filter(recall => recall.completion === 'unknown').length;
+  const completed = recalls.length - open - unknown;
+  const counts = [
+    open > 0 && `${open} open`,
+    unknown > 0 && `${unknown} not confirmed repaired`,
+    completed > 0 && `${completed} completed`,
+  ].filter(Boolean);
+  return {
+    key: 'recalls',
+    label: 'Recalls',
+    score: clamp(100 - open * 15 - unknown * 5),
+    detail: counts.length === 0 ? 'None found' : counts.join(', '),
+  };
+}
+
+function redFlagFactor(analysis: CarAnalysis): Omit<ScoreFactor, 'weight'> {
+  const flags = analysis.redFlags || [];
+  const counts = RED_FLAG_SEVERITIES
+    .map(severity => ({ severity, count: flags.filter(f => f.severity === severity).length }))
+    .filter(({ count }) => count > 0);
+  return {
+    key: 'redFlags',
+    label: 'Red flags',
+    score: clamp(100 - flags.reduce((sum, f) => sum + RED_FLAG_PENALTIES[f.severity], 0)),
+    detail: counts.length === 0 ? 'None detected' : counts.map(({ severity, count }) => `${count} ${severity}`).join(', '),
+  };
+}
+
+function aiFactor(aiScore: number | undefined): Omit<ScoreFactor, 'weight'> | null {
+  if (aiScore === undefined || !Number.isFinite(aiScore)) return null;
+  return {
+    key: 'ai',
+    label: 'AI opinion',
+    score: clamp(aiScore),
+    detail: `Model rated it ${Math.round(aiScore)}/100`,
+  };
+}
+
+function ratingFor(score: number): CarAnalysis['dealRating'] {
+  if (score >= 80) return 'Great';
+  if (score >= 65) return 'Good';
+  if (score >= 50) return 'Fair';
+  return 'Poor';
+}
+
+/**
+ * Computes a reproducible deal score from the listing data. The model's own
+ * dealScore is only one weighted input; a "Suspicious" verdict from the model
+ * is kept as the rating because it usually reflects scam signals in the text,
+ * and a critical scam red flag makes the rating "Suspicious" on its own.
+ */
+export function scoreDeal(
+  analysis: CarAnalysis,
+  { aiScore = analysis.scoreBreakdown?.aiScore ?? analysis.dealScore, referenceYear = new Date().getFullYear() }: { aiScore?: number; referenceYear?: number } = {},
+): DealScoreBreakdown {
+  const candidates = [
+    priceFactor(analysis),
+    mileageFactor(analysis, referenceYear),
+    ageFactor(analysis, referenceYear),
+    titleFactor(analysis),
+    recallFactor(analysis),
+    redFlagFactor(analysis),
+    aiFactor(aiScore),
+  ].filter((factor): factor is Omit<ScoreFactor, 'weight'> => factor !== null);
+
+  const totalWeight = candidates.reduce((sum, f) => sum + WEIGHTS[f.key], 0);
+  const factors: ScoreFactor[] = candidates.map(f => ({
+    ...f,
+    score: Math.round(f.score),
+    weight: WEIGHTS[f.key] / totalWeight,
+  }));
+
+  const score = Math.round(factors.reduce((sum, f) => sum + f.score * f.weight, 0));
+  const scamSignal = analysis.redFlags?.some(f => f.category === 'scam' && f.severity === 'critical');
+  const rating = analysis.dealRating === 'Suspicious' || scamSignal ? 'Suspicious' : ratingFor(score);
+
+  return { score, rating, factors, aiScore };
+}
@@ -0,0 +1,82 @@
+import type { CarAnalysis, FinancingInputs, NegotiationTargets, PriceTarget } from '../types';
+
+/** Fixed monthly payment on an amortized loan; 0 for a cash purchase. */
+export function monthlyPayment(principal: number, apr: number, termMonths: number): number {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const rate = apr / 100 / 12;
+  if (rate === 0) return principal / termMonths;
+  return (principal * rate) / (1 - Math.pow(1 + rate, -termMonths));
+}
+
+/** The loan principal a given monthly payment pays off: the inverse of monthlyPayment. */
+export function affordablePrincipal(payment: number, apr: number, termMonths: number): number {
+  if (payment <= 0 || termMonths <= 0) return 0;
+  const rate = apr / 100 / 12;
+  if (rate === 0) return payment * termMonths;
+  return (payment * (1 - Math.pow(1 + rate, -termMonths))) / rate;
+}
+
+export function defaultFinancingInputs(analysis: Pick<CarAnalysis, 'price' | 'tco'>): FinancingInputs {
+  const tco = analysis.tco?.inputs;
+  return {
+    monthlyBudget: 0,
+    apr: tco?.apr ?? 7.5,
+    termMonths: tco?.termMonths ?? 60,
+    downPayment: tco?.downPayment ?? Math.round((analysis.price || 0) * 0.2 / 100) * 100,
+  };
+}
+
+// Rounds down so a rounded target never exceeds the limit it was derived from
+function roundPrice(price: number): number {
+  return Math.floor(price / 50) * 50;
+}
+
+/**
+ * Turns the asking price and market range into three numbers to negotiate
+ * with: an opening offer near the low end of the market, a target between the
+ * low and average prices, and a walk-away price that never exceeds the asking
+ * price, the market average or what the monthly budget covers. Payments are
+ * before tax and fees.
+ */
+export function calculateNegotiationTargets(analysis: CarAnalysis, inputs: FinancingInputs): NegotiationTargets {
+  const price = analysis.price || 0;
+  const average = analysis.marketComparison?.averagePrice || price;
+  const low = Math.min(analysis.marketComparison?.lowPrice || average, average);
+  const notes: string[] = [];
+
+  const maxAffordablePrice = inputs.monthlyBudget > 0
+    ? roundPrice(affordablePrincipal(inputs.monthlyBudget, inputs.apr, inputs.termMonths) + inputs.downPayment)
+    : null;
+
+  let walkAway = Math.min(price, average);
+  if (price > average) notes.push(`Asking price is $${(price - average).toLocaleString()} above the market average`);
+  if (maxAffordablePrice !== null && maxAffordablePrice < walkAway) {
+    walkAway = maxAffordablePrice;
+    notes.push(`Walk-away capped at $${maxAffordablePrice.toLocaleString()}, the most a $${inputs.monthlyBudget.toLocaleString()}/mo budget covers`);
+  }
+
+  // Never open below 80% of asking; lower offers tend to end the conversation
+  const floor = price * 0.8;
+  const target = Math.max(floor, Math.min(walkAway, (low + average) / 2));
+  const opening = Math.max(floor, Math.min(target * 0.95, low));
+
+  const toTarget = (value: number): PriceTarget => {
+    const rounded = value === price ? price : roundPrice(value);
+    return {
+      price: rounded,
+      monthlyPayment: Math.round(monthlyPayment(rounded - inputs.downPayment, inputs.apr, inputs.termMonths)),
+    };
+  };
+
+  const overBudget = maxAffordablePrice !== null && maxAffordablePrice < roundPrice(opening);
+  if (overBudget) notes.push('Even the opening offer is above your budget; consider a larger down payment or a cheaper car');
+
+  return {
+    opening: toTarget(Math.min(opening, walkAway)),
+    target: toTarget(Math.min(target, walkAway)),
+    walkAway: toTarget(walkAway),
+    maxAffordablePrice,
+    overBudget,
+    notes,
+  };
+}
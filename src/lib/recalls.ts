@@ -0,0 +1,101 @@
+import type { Recall } from '../types';
+
+/** Decoded attributes used to decide whether a model-wide recall applies to one VIN. */
+export interface RecallVehicleAttributes {
+  fuelType?: string;
+  displacementL?: string;
+  bodyClass?: string;
+  electrification?: string;
+}
+
+export interface ExcludedRecall {
+  campaignNumber: string;
+  reason: string;
+}
+
+// NHTSA reports dates as DD/MM/YYYY.
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+}
+
+/**
+ * Maps a raw NHTSA recallsByVehicle result (or an already-normalized record,
+ * e.g. from a saved deal) onto the Recall shape.
+ */
+export function normalizeRecall(raw: any): Recall {
+  const remedy = String(raw.remedy ?? raw.Remedy ?? '').trim();
+  return {
+    campaignNumber: String(raw.campaignNumber ?? raw.NHTSACampaignNumber ?? '').trim(),
+    component: String(raw.component ?? raw.Component ?? '').trim(),
+    summary: String(raw.summary ?? raw.Summary ?? '').trim(),
+    consequence: String(raw.consequence ?? raw.Consequence ?? '').trim(),
+    remedy,
+    reportDate: raw.reportDate ?? toIsoDate(raw.ReportReceivedDate),
+    parkIt: Boolean(raw.parkIt),
+    parkOutside: Boolean(raw.parkOutside ?? raw.parkOutSide),
+    remedyAvailable: raw.remedyAvailable ?? (remedy !== '' && !/not (yet )?available|remedy is (still )?under development/i.test(remedy)),
+    completion: raw.completion ?? 'unknown',
+  };
+}
+
+/** Keeps the first record per campaign number; NHTSA repeats campaigns across model variants. */
+export function dedupeRecalls(recalls: Recall[]): Recall[] {
+  const seen = new Set<string>();
+  return recalls.filter(recall => {
+    if (!recall.campaignNumber) return true;
+    if (seen.has(recall.campaignNumber)) return false;
+    seen.add(recall.campaignNumber);
+    return true;
+  });
+}
+
+/**
+ * Explains why a model-wide recall does not apply to this vehicle, or returns
+ * null when it may apply. Only conflicts with attributes we actually decoded
+ * count; anything ambiguous is kept.
+ */
+function exclusionReason(recall: Recall, vehicle: RecallVehicleAttributes): string | null {
+  const text = `${recall.summary} ${recall.component}`.toLowerCase();
+  const fuel = (vehicle.fuelType || '').toLowerCase();
+  const electrification = (vehicle.electrification || '').toLowerCase();
+  const isHybrid = /hybrid/.test(electrification) || /hybrid/.test(fuel);
+  const isElectric = /bev|battery electric/.test(electrification) || fuel === 'electric';
+
+  if (fuel && /\bdiesel\b/.test(text) && !fuel.includes('diesel')) {
+    return 'Applies to diesel engines only';
+  }
+  if ((fuel || electrification) && /\bhybrid\b/.test(text) && !isHybrid && !/\bnon-hybrid\b/.test(text)) {
+    return 'Applies to hybrid models only';
+  }
+  if ((fuel || electrification) && /\b(electric vehicles?|high[- ]voltage battery)\b/.test(text) && !isElectric && !isHybrid) {
+    return 'Applies to electrified models only';
+  }
+
+  const displacement = parseFloat(vehicle.displacementL || '');
+  const listed = [...text.matchAll(/\b(\d\.\d)\s?-?l(?:iter)?\b/g)].map(m => parseFloat(m[1]));
+  if (Number.isFinite(displacement) && listed.length > 0 && !listed.some(l => Math.abs(l - displacement) < 0.05)) {
+    return `Applies to ${[...new Set(listed)].map(l => `${l.toFixed(1)}L`).join('/')} engines; this VIN has a ${displacement.toFixed(1)}L`;
+  }
+
+  const body = (vehicle.bodyClass || '').toLowerCase();
+  const bodies = ['sedan', 'coupe', 'convertible', 'hatchback', 'wagon', 'pickup'].filter(b => new RegExp(`\\b${b}s?\\b`).test(text));
+  if (body && bodies.length > 0 && !bodies.some(b => body.includes(b))) {
+    return `Applies to ${bodies.join('/')} body styles only`;
+  }
+
+  return null;
+}
+
+export function filterApplicableRecalls(recalls: Recall[], vehicle: RecallVehicleAttributes): { applicable: Recall[]; excluded: ExcludedRecall[] } {
+  const applicable: Recall[] = [];
+  const excluded: ExcludedRecall[] = [];
+  for (const recall of recalls) {
+    const reason = exclusionReason(recall, vehicle);
+    if (reason) excluded.push({ campaignNumber: recall.campaignNumber, reason });
+    else applicable.push(recall);
+  }
+  return { applicable, excluded };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { applyRedFlagRules } from './redFlagRules';
+import type { CarAnalysis, RedFlag } from '../types';
+
+const VIN = '2HGFC2F74KH512345';
+
+function analysis(overrides: Partial<CarAnalysis> = {}): CarAnalysis {
+  return {
+    make: 'Honda',
+    model: 'Civic',
+    year: 2019,
+    price: 15000,
+    mileage: 84000,
+    location: 'Portland, OR',
+    condition: 'Good',
+    dealRating: 'Good',
+    dealScore: 70,
+    summary: '',
+    redFlags: [],
+    pros: [],
+    cons: [],
+    marketComparison: { averagePrice: 15000, lowPrice: 13000, highPrice: 17000, similarCarsCount: 12 },
+    negotiationPitch: '',
+    vin: VIN,
+    ...overrides,
+  };
+}
+
+function ruleIds(flags: RedFlag[]): (string | undefined)[] {
+  return flags.map(f => f.rule);
+}
+
+describe('applyRedFlagRules', () => {
+  it('raises nothing for an ordinary listing', () => {
+    expect(applyRedFlagRules(analysis(), 'One owner, regular oil changes, test drives welcome.')).toEqual([]);
+  });
+
+  it('flags a price under the cheapest comparable, as a scam when far under', () => {
+    const [pricing] = applyRedFlagRules(analysis({ price: 10500 }));
+    expect(pricing).toMatchObject({ rule: 'price-below-market', category: 'pricing', severity: 'medium', source: 'rules' });
+    expect(pricing.message).toContain('19% below the cheapest comparable ($13,000)');
+
+    const [scam] = applyRedFlagRules(analysis({ price: 8000 }));
+    expect(scam).toMatchObject({ rule: 'price-below-market', category: 'scam', severity: 'critical' });
+
+    expect(applyRedFlagRules(analysis({ price: 11200 }))).toEqual([]);
+  });
+
+  it('quotes the sentence that matched a scam phrase', () => {
+    const text = 'Great car. I am deployed overseas so the sale goes through eBay Motors protection. Payment by gift card only!';
+    const flags = applyRedFlagRules(analysis(), text);
+
+    expect(ruleIds(flags)).toEqual(['gift-card-payment', 'escrow-payment', 'scam-backstory']);
+    expect(flags[0]).toMatchObject({ category: 'scam', severity: 'critical', evidence: 'Payment by gift card only!' });
+    expect(flags[2].evidence).toBe('I am deployed overseas so the sale goes through eBay Motors protection.');
+  });
+
+  it('flags shipping-only sellers and irreversible payments', () => {
+    const flags = applyRedFlagRules(analysis(), 'No test drives, we ship nationwide. Free shipping. Western Union accepted.');
+    expect(ruleIds(flags)).toEqual(['shipping-only', 'wire-payment']);
+  });
+
+  it('searches the model\'s evidence quotes as well as the listing', () => {
+    const flags = applyRedFlagRules(analysis({
+      redFlags: [{ category: 'other', severity: 'low', message: 'Unusual payment terms', evidence: 'pay with Bitcoin', source: 'ai' }],
+    }));
+    expect(ruleIds(flags)).toEqual([undefined, 'wire-payment']);
+  });
+
+  it('flags a missing, invalid or mismatched VIN', () => {
+    expect(ruleIds(applyRedFlagRules(analysis({ vin: undefined })))).toEqual(['vin-missing']);
+
+    const invalid = applyRedFlagRules(analysis({
+      vin: '2HGFC2F75KH512345',
+      vinData: { vinCheck: { valid: false, errors: ['Check digit is 5 but should be 4'], mismatches: [] } },
+    }));
+    expect(invalid).toEqual([{
+      category: 'documentation',
+      severity: 'high',
+      message: 'VIN 2HGFC2F75KH512345 failed validation: Check digit is 5 but should be 4',
+      source: 'rules',
+      rule: 'vin-invalid',
+    }]);
+
+    const mismatched = applyRedFlagRules(analysis({
+      vinData: { vinCheck: { valid: true, errors: [], mismatches: ['VIN decodes to model year 2019 but the listing says 2017'] } },
+    }));
+    expect(mismatched).toMatchObject([{ rule: 'vin-mismatch', category: 'scam', severity: 'high' }]);
+  });
+
+  it('confirms a model flag for the same problem in place instead of adding one', () => {
+    const modelFlags: RedFlag[] = [
+      { category: 'mechanical', severity: 'medium', message: 'Check engine light is on', source: 'ai' },
+      { category: 'pricing', severity: 'medium', message: 'Price seems too good to be true', source: 'ai' },
+    ];
+    const flags = applyRedFlagRules(analysis({ price: 8000, redFlags: modelFlags }));
+
+    expect(flags).toHaveLength(2);
+    expect(flags[1]).toEqual({
+      category: 'scam',
+      severity: 'critical',
+      message: 'Price seems too good to be true',
+      source: 'ai',
+      rule: 'price-below-market',
+    });
+    expect(modelFlags[1].rule).toBeUndefined();
+  });
+
+  it('never lowers the severity of a confirmed flag', () => {
+    const [flag] = applyRedFlagRules(analysis({
+      price: 10500,
+      redFlags: [{ category: 'scam', severity: 'critical', message: 'Priced suspiciously low', source: 'ai' }],
+    }));
+    expect(flag).toMatchObject({ category: 'pricing', severity: 'critical', rule: 'price-below-market' });
+  });
+});
@@ -0,0 +1,142 @@
+import { mostSevere } from './redFlags';
+import type { CarAnalysis, RedFlag } from '../types';
+
+type RuleFlag = Omit<RedFlag, 'source' | 'rule'>;
+
+interface RedFlagRule {
+  id: string;
+  check: (analysis: CarAnalysis, listingText: string) => RuleFlag[];
+  // A model flag matching this already describes the same problem, so the
+  // rule confirms it instead of adding a duplicate
+  sameProblem?: RegExp;
+}
+
+// Asking prices this far under the lowest comparable are treated as bait
+const SCAM_PRICE_RATIO = 0.7;
+const LOW_PRICE_RATIO = 0.85;
+
+/** The sentence around a match, trimmed to a readable quote. */
+function quoteAround(text: string, index: number, length: number): string {
+  const before = text.slice(Math.max(0, index - 80), index);
+  const after = text.slice(index + length, index + length + 80);
+  const start = Math.max(before.search(/[^.!?\n]*$/), 0);
+  const end = after.search(/[.!?\n]/);
+  const quote = before.slice(start) + text.slice(index, index + length) + (end === -1 ? after : after.slice(0, end + 1));
+  return quote.replace(/\s+/g, ' ').trim();
+}
+
+function phraseRule(id: string, pattern: RegExp, flag: Omit<RuleFlag, 'evidence'>): RedFlagRule {
+  return {
+    id,
+    sameProblem: pattern,
+    check: (_analysis, listingText) => {
+      const match = pattern.exec(listingText);
+      return match ? [{ ...flag, evidence: quoteAround(listingText, match.index, match[0].length) }] : [];
+    },
+  };
+}
+
+const RULES: RedFlagRule[] = [
+  {
+    id: 'price-below-market',
+    sameProblem: /too good to be true|(far|well|significantly|suspiciously) (below|under)|suspiciously (low|cheap)/i,
+    check: ({ price, marketComparison }) => {
+      const low = marketComparison?.lowPrice;
+      if (!price || !low || price >= low * LOW_PRICE_RATIO) return [];
+      const under = Math.round((1 - price / low) * 100);
+      return price < low * SCAM_PRICE_RATIO
+        ? [{
+          category: 'scam',
+          severity: 'critical',
+          message: `Asking price is ${under}% below the cheapest comparable ($${low.toLocaleString()}). Prices this far under market are a common bait in scam listings.`,
+        }]
+        : [{
+          category: 'pricing',
+          severity: 'medium',
+          message: `Asking price is ${under}% below the cheapest comparable ($${low.toLocaleString()}). Ask the seller why before getting attached.`,
+        }];
+    },
+  },
+  phraseRule('shipping-only', /\b(?:shipping only|ship(?:ped|s)? only|(?:can(?:not|'t)|unable to|won't) (?:meet|show (?:it|the car))|no (?:test drives?|viewings?|inspections?)|(?:will|can) (?:ship|deliver) (?:it |the car |the vehicle )?(?:to you|anywhere|nationwide)|free (?:shipping|delivery))\b/i, {
+    category: 'scam',
+    severity: 'high',
+    message: 'Seller only offers to ship the car and avoids meeting or an inspection.',
+  }),
+  phraseRule('gift-card-payment', /\b(?:gift ?cards?|itunes cards?|google play cards?|steam cards?)\b/i, {
+    category: 'scam',
+    severity: 'critical',
+    message: 'Seller asks for payment in gift cards. No legitimate car sale is paid this way.',
+  }),
+  phraseRule('escrow-payment', /\b(?:escrow|ebay motors? (?:buyer |vehicle purchase )?protection|amazon payments?|paypal (?:purchase )?protection|buyer protection program)\b/i, {
+    category: 'scam',
+    severity: 'critical',
+    message: 'Seller wants the money sent through an escrow or "buyer protection" service, the most common used-car scam.',
+  }),
+  phraseRule('wire-payment', /\b(?:wire transfer|bank wire|western union|moneygram|bitcoin|crypto(?:currency)?|(?:zelle|cash ?app|venmo) only)\b/i, {
+    category: 'scam',
+    severity: 'high',
+    message: 'Seller asks for an irreversible payment method (wire, crypto or payment app) instead of a traceable one.',
+  }),
+  phraseRule('scam-backstory', /\b(?:deployed|deployment|military (?:transfer|base)|(?:moving|relocat(?:ed|ing)) (?:overseas|abroad)|going through a divorce|(?:deceased|late) (?:husband|wife|son|father))\b/i, {
+    category: 'scam',
+    severity: 'medium',
+    message: 'Seller\'s story matches common scam scripts (deployment, moving abroad or a bereavement).',
+  }),
+  {
+    id: 'vin-missing',
+    sameProblem: /\bno vin\b|\bvin\b.*\b(missing|not (provided|listed|found|included|shown))\b/i,
+    check: ({ vin }) => vin ? [] : [{
+      category: 'documentation',
+      severity: 'medium',
+      message: 'No VIN in the listing. Ask for it and run a history report before going further.',
+    }],
+  },
+  {
+    id: 'vin-invalid',
+    check: ({ vin, vinData }) => vinData?.vinCheck && !vinData.vinCheck.valid ? [{
+      category: 'documentation',
+      severity: 'high',
+      message: `VIN ${vin} failed validation: ${vinData.vinCheck.errors.join('; ')}`,
+    }] : [],
+  },
+  {
+    id: 'vin-mismatch',
+    sameProblem: /\bvin\b.*\b(mismatch|does(n't| not) match|disagree)/i,
+    check: ({ vinData }) => (vinData?.vinCheck?.mismatches || []).map(mismatch => ({
+      category: 'scam' as const,
+      severity: 'high' as const,
+      message: mismatch,
+    })),
+  },
+];
+
+/**
+ * Runs the local scam-pattern rules and merges what they find into the
+ * model's red flags. A rule that matches a model flag confirms it in place
+ * (keeping its position, so `redFlags.N` sources still line up) and raises
+ * its severity if needed; anything new is appended.
+ *
+ * `listingText` is whatever listing wording is available: pasted text or
+ * scraped title and description. The model's evidence quotes are searched too.
+ */
+export function applyRedFlagRules(analysis: CarAnalysis, listingText = ''): RedFlag[] {
+  const flags = analysis.redFlags.map(flag => ({ ...flag }));
+  const text = [listingText, ...flags.map(f => f.evidence)].filter(Boolean).join('\n');
+
+  for (const rule of RULES) {
+    for (const found of rule.check(analysis, text)) {
+      const existing = rule.sameProblem && flags.find(f => !f.rule && rule.sameProblem!.test(f.message));
+      if (existing) {
+        Object.assign(existing, {
+          category: found.category,
+          severity: mostSevere(existing.severity, found.severity),
+          evidence: existing.evidence ?? found.evidence,
+          rule: rule.id,
+        });
+      } else {
+        flags.push({ ...found, source: 'rules', rule: rule.id });
+      }
+    }
+  }
+  return flags;
+}
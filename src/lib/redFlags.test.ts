@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeRedFlag, normalizeRedFlags, normalizedRedFlagIndexes } from './redFlags';
+
+describe('normalizeRedFlag', () => {
+  it('classifies plain text flags from their wording', () => {
+    expect(normalizeRedFlag('Seller wants a gift card deposit')).toEqual({
+      category: 'scam',
+      severity: 'critical',
+      message: 'Seller wants a gift card deposit',
+      source: 'ai',
+    });
+    expect(normalizeRedFlag('Small scratch on the door')).toMatchObject({ category: 'other', severity: 'low' });
+  });
+
+  it('keeps a valid category and severity and replaces unknown ones', () => {
+    expect(normalizeRedFlag({ message: 'Rebuilt title', category: 'Title', severity: 'CRITICAL', source: 'rules', rule: 'x' }))
+      .toEqual({ category: 'title', severity: 'critical', message: 'Rebuilt title', source: 'rules', rule: 'x' });
+    expect(normalizeRedFlag({ text: 'Transmission slipping', category: 'engine', severity: 'bad' }))
+      .toMatchObject({ category: 'mechanical', severity: 'medium', message: 'Transmission slipping' });
+  });
+
+  it('returns null when there is no message', () => {
+    expect(normalizeRedFlag('  ')).toBeNull();
+    expect(normalizeRedFlag({ category: 'scam' })).toBeNull();
+    expect(normalizeRedFlag(42)).toBeNull();
+  });
+});
+
+describe('normalizedRedFlagIndexes', () => {
+  it('maps raw indexes past dropped entries', () => {
+    const raw = ['Rust on the frame', { category: 'scam' }, '', 'Odometer looks rolled back'];
+
+    expect(normalizeRedFlags(raw).map(f => f.message)).toEqual(['Rust on the frame', 'Odometer looks rolled back']);
+    expect([...normalizedRedFlagIndexes(raw)]).toEqual([[0, 0], [3, 1]]);
+  });
+
+  it('treats a single flag as a list of one', () => {
+    expect(normalizeRedFlags('No service records')).toHaveLength(1);
+    expect([...normalizedRedFlagIndexes('No service records')]).toEqual([[0, 0]]);
+    expect(normalizeRedFlags(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import type { RedFlag, RedFlagCategory, RedFlagSeverity } from '../types';
+
+export const RED_FLAG_CATEGORIES: RedFlagCategory[] = ['scam', 'title', 'mechanical', 'pricing', 'documentation', 'other'];
+
+// Most to least severe
+export const RED_FLAG_SEVERITIES: RedFlagSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Keyword fallbacks for flags that arrive as plain text: older saved deals, and
+// models that ignore the requested shape. First match wins.
+const CLASSIFIERS: { pattern: RegExp; category: RedFlagCategory; severity: RedFlagSeverity }[] = [
+  { pattern: /gift ?card|escrow|too good to be true|\bscam/i, category: 'scam', severity: 'critical' },
+  { pattern: /wire transfer|western union|moneygram|ship(ping|ped)?\b|deposit|deployed|overseas|won't meet|can(not|'t) meet|curbston/i, category: 'scam', severity: 'high' },
+  { pattern: /salvage|flood|rebuilt|reconstructed|junk|lemon|frame damage/i, category: 'title', severity: 'high' },
+  { pattern: /\btitle\b|lien|branded/i, category: 'title', severity: 'medium' },
+  { pattern: /odometer|rolled back|\bvin\b/i, category: 'documentation', severity: 'high' },
+  { pattern: /records|paperwork|registration|history report|carfax|autocheck|receipts/i, category: 'documentation', severity: 'medium' },
+  { pattern: /transmission|engine|overheat|slipping|misfire|smoke|leak|check engine|warning light|noise|rust|brake|suspension|clutch|mechanic/i, category: 'mechanical', severity: 'medium' },
+  { pattern: /price|priced|below market|above market|\$\d/i, category: 'pricing', severity: 'medium' },
+  { pattern: /minor|scratch|dent|chip|cosmetic|scuff|stain|wear/i, category: 'other', severity: 'low' },
+];
+
+function classify(message: string): Pick<RedFlag, 'category' | 'severity'> {
+  const match = CLASSIFIERS.find(c => c.pattern.test(message));
+  return match ? { category: match.category, severity: match.severity } : { category: 'other', severity: 'medium' };
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Turns one red flag as stored or as returned by the model into a RedFlag.
+ * Plain strings and unknown categories or severities are classified from the
+ * message; returns null when there is no message at all.
+ */
+export function normalizeRedFlag(value: unknown, source: RedFlag['source'] = 'ai'): RedFlag | null {
+  if (typeof value === 'string') {
+    const message = text(value);
+    return message ? { ...classify(message), message, source } : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  const message = text(raw.message) ?? text(raw.text) ?? text(raw.description) ?? text(raw.flag);
+  if (!message) return null;
+
+  const guessed = classify(message);
+  const category = text(raw.category)?.toLowerCase() as RedFlagCategory | undefined;
+  const severity = text(raw.severity)?.toLowerCase() as RedFlagSeverity | undefined;
+  const evidence = text(raw.evidence);
+  const rule = text(raw.rule);
+  return {
+    category: category && RED_FLAG_CATEGORIES.includes(category) ? category : guessed.category,
+    severity: severity && RED_FLAG_SEVERITIES.includes(severity) ? severity : guessed.severity,
+    message,
+    ...(evidence ? { evidence } : {}),
+    source: raw.source === 'rules' ? 'rules' : source,
+    ...(rule ? { rule } : {}),
+  };
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+/** Normalizes a whole red flag list, dropping entries without a message. */
+export function normalizeRedFlags(value: unknown, source: RedFlag['source'] = 'ai'): RedFlag[] {
+  return asList(value).map(item => normalizeRedFlag(item, source)).filter((flag): flag is RedFlag => flag !== null);
+}
+
+/**
+ * Maps each index in a raw red flag list to the index the same flag has after
+ * normalizeRedFlags. Dropped entries are missing, so anything keyed by
+ * `redFlags.N` in the raw list has to go through this to stay on its flag.
+ */
+export function normalizedRedFlagIndexes(value: unknown): Map<number, number> {
+  const indexes = new Map<number, number>();
+  asList(value).forEach((item, rawIndex) => {
+    if (normalizeRedFlag(item) !== null) indexes.set(rawIndex, indexes.size);
+  });
+  return indexes;
+}
+
+export function severityRank(severity: RedFlagSeverity): number {
+  return RED_FLAG_SEVERITIES.indexOf(severity);
+}
+
+export function mostSevere(a: RedFlagSeverity, b: RedFlagSeverity): RedFlagSeverity {
+  return severityRank(a) <= severityRank(b) ? a : b;
+}
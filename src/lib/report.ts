@@ -0,0 +1,65 @@
+import type { CarAnalysis, SavedDeal } from '../types';
+
+// Lets other tools recognize an export and know which shape to expect
+export const REPORT_FORMAT = 'cardealscout.analysis';
+export const REPORT_VERSION = 1;
+
+export interface AnalysisExport {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  listingUrl?: string;
+  analysis: CarAnalysis;
+}
+
+/** The listing an analysis came from, whether it is a fresh result or a saved deal. */
+export function listingUrlOf(analysis: CarAnalysis): string | undefined {
+  return analysis.source?.url || (analysis as Partial<SavedDeal>).url || undefined;
+}
+
+/** e.g. "2019-honda-civic-report" */
+export function reportFileName(analysis: CarAnalysis, suffix: string): string {
+  const slug = [analysis.year, analysis.make, analysis.model]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'car'}-${suffix}`;
+}
+
+/**
+ * The same data as the printed report, as plain JSON. App-only fields of a
+ * saved deal (its id, watch state and price history) are left out.
+ */
+export function buildAnalysisExport(analysis: CarAnalysis): AnalysisExport {
+  const { _id, url, createdAt, watched, priceHistory, workspaceId, savedBy, isOwn, votes, commentCount, cache, notes, tags, status, versionCount, ...rest } = analysis as SavedDeal;
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    listingUrl: listingUrlOf(analysis),
+    analysis: rest,
+  };
+}
+
+export function downloadAnalysisJson(analysis: CarAnalysis) {
+  const blob = new Blob([JSON.stringify(buildAnalysisExport(analysis), null, 2)], { type: 'application/json' });
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = `${reportFileName(analysis, 'analysis')}.json`;
+  link.click();
+  URL.revokeObjectURL(href);
+}
+
+/**
+ * Opens the browser's print dialog on the report layout, where "Save as PDF"
+ * produces the PDF. The document title becomes the suggested file name.
+ */
+export function printAnalysisReport(analysis: CarAnalysis) {
+  const previousTitle = document.title;
+  document.title = reportFileName(analysis, 'report');
+  window.addEventListener('afterprint', () => { document.title = previousTitle; }, { once: true });
+  window.print();
+}
@@ -0,0 +1,68 @@
+import type { CarAnalysis, DealStatus, SavedDeal } from '../types';
+
+export const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  considering: 'Considering',
+  contacted: 'Contacted',
+  test_drove: 'Test drove',
+  offer_made: 'Offer made',
+  bought: 'Bought',
+  passed: 'Passed',
+};
+
+export const DEAL_STATUSES = Object.keys(DEAL_STATUS_LABELS) as DealStatus[];
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+/** Trimmed, lowercased and de-duplicated, so "SUV" and "suv " are one tag. */
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+  return [...new Set(cleaned)];
+}
+
+export type DealSort = 'newest' | 'oldest' | 'score' | 'price_low' | 'price_high';
+
+export interface DealQuery {
+  search: string;
+  rating: CarAnalysis['dealRating'] | '';
+  status: DealStatus | '';
+  tag: string;
+  sort: DealSort;
+}
+
+export const EMPTY_DEAL_QUERY: DealQuery = { search: '', rating: '', status: '', tag: '', sort: 'newest' };
+
+// SQLite datetimes sort correctly as strings
+const SORTERS: Record<DealSort, (a: SavedDeal, b: SavedDeal) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  score: (a, b) => b.dealScore - a.dealScore,
+  price_low: (a, b) => a.price - b.price,
+  price_high: (a, b) => b.price - a.price,
+};
+
+function matchesSearch(deal: SavedDeal, search: string): boolean {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [deal.year, deal.make, deal.model, deal.location, deal.vin, deal.notes, ...(deal.tags ?? [])]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return words.every((word) => haystack.includes(word));
+}
+
+/** The deals that pass every filter in `query`, in its sort order. */
+export function applyDealQuery(deals: SavedDeal[], query: DealQuery): SavedDeal[] {
+  return deals
+    .filter((deal) =>
+      (!query.search || matchesSearch(deal, query.search)) &&
+      (!query.rating || deal.dealRating === query.rating) &&
+      (!query.status || (deal.status ?? 'considering') === query.status) &&
+      (!query.tag || (deal.tags ?? []).includes(query.tag))
+    )
+    .sort(SORTERS[query.sort]);
+}
+
+/** Every tag used across `deals`, alphabetically, for the tag filter. */
+export function collectTags(deals: SavedDeal[]): string[] {
+  return [...new Set(deals.flatMap((deal) => deal.tags ?? []))].sort();
+}
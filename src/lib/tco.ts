@@ -0,0 +1,195 @@
+import { monthlyPayment } from './financing';
+import type { CarAnalysis, TcoInputs, TcoResult } from '../types';
+
+export const TCO_YEARS = 5;
+
+const TYPICAL_MILES_PER_YEAR = 12000;
+const GAS_PRICE = 3.5; // $/gal, national average
+const DIESEL_PRICE = 3.9;
+const ELECTRICITY_PRICE = 0.16; // $/kWh, home charging
+const EV_KWH_PER_MILE = 0.3;
+const BASE_INSURANCE = 1700; // $/yr, full coverage national average
+const ANNUAL_REGISTRATION = 150;
+const TITLE_AND_DOC_FEES = 300;
+const NATIONAL_SALES_TAX = 5.5;
+
+// First three ZIP digits to state, [from, to, state]
+const ZIP3_STATES: [number, number, string][] = [
+  [5, 5, 'NY'], [10, 27, 'MA'], [28, 29, 'RI'], [30, 38, 'NH'], [39, 49, 'ME'], [50, 59, 'VT'],
+  [60, 69, 'CT'], [70, 89, 'NJ'], [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'],
+  [200, 205, 'DC'], [206, 219, 'MD'], [220, 246, 'VA'], [247, 268, 'WV'], [270, 289, 'NC'],
+  [290, 299, 'SC'], [300, 319, 'GA'], [320, 349, 'FL'], [350, 369, 'AL'], [370, 385, 'TN'],
+  [386, 397, 'MS'], [398, 399, 'GA'], [400, 427, 'KY'], [430, 459, 'OH'], [460, 479, 'IN'],
+  [480, 499, 'MI'], [500, 528, 'IA'], [530, 549, 'WI'], [550, 567, 'MN'], [570, 577, 'SD'],
+  [580, 588, 'ND'], [590, 599, 'MT'], [600, 629, 'IL'], [630, 658, 'MO'], [660, 679, 'KS'],
+  [680, 693, 'NE'], [700, 715, 'LA'], [716, 729, 'AR'], [730, 749, 'OK'], [750, 799, 'TX'],
+  [800, 816, 'CO'], [820, 831, 'WY'], [832, 838, 'ID'], [840, 847, 'UT'], [850, 865, 'AZ'],
+  [870, 884, 'NM'], [885, 885, 'TX'], [889, 898, 'NV'], [900, 961, 'CA'], [967, 968, 'HI'],
+  [970, 979, 'OR'], [980, 994, 'WA'], [995, 999, 'AK'],
+];
+
+// State-level vehicle sales tax in percent; local add-ons are not included
+const SALES_TAX: Record<string, number> = {
+  AL: 2, AK: 0, AZ: 5.6, AR: 6.5, CA: 7.25, CO: 2.9, CT: 6.35, DE: 4.25, DC: 6, FL: 6, GA: 7,
+  HI: 4, ID: 6, IL: 6.25, IN: 7, IA: 5, KS: 6.5, KY: 6, LA: 4.45, ME: 5.5, MD: 6, MA: 6.25,
+  MI: 6, MN: 6.5, MS: 5, MO: 4.225, MT: 0, NE: 5.5, NV: 6.85, NH: 0, NJ: 6.625, NM: 4, NY: 4,
+  NC: 3, ND: 5, OH: 5.75, OK: 3.25, OR: 0, PA: 6, RI: 7, SC: 5, SD: 4, TN: 7, TX: 6.25,
+  UT: 6.85, VT: 6, VA: 4.15, WA: 6.5, WV: 6, WI: 5, WY: 4,
+};
+
+// Full-coverage premiums relative to the national average
+const INSURANCE_FACTOR: Record<string, number> = {
+  MI: 1.45, LA: 1.5, FL: 1.4, NY: 1.3, NV: 1.25, DC: 1.2, RI: 1.2, NJ: 1.2, CA: 1.15, KY: 1.15,
+  MD: 1.15, TX: 1.1, GA: 1.1, CO: 1.1, CT: 1.1, ME: 0.7, VT: 0.75, ID: 0.75, OH: 0.75, NH: 0.75,
+  WI: 0.8, IA: 0.8, NC: 0.8, IN: 0.8, HI: 0.8,
+};
+
+const VALUE_RETAINING_MAKES = ['toyota', 'honda', 'lexus', 'subaru', 'porsche', 'mazda'];
+const LUXURY_MAKES = [
+  'bmw', 'mercedes-benz', 'mercedes', 'audi', 'jaguar', 'land rover', 'maserati', 'infiniti',
+  'cadillac', 'lincoln', 'alfa romeo', 'volvo', 'genesis', 'acura', 'tesla',
+];
+
+export function stateForZip(zip: string): string | undefined {
+  if (!/^\d{5}$/.test(zip)) return undefined;
+  const prefix = Number(zip.slice(0, 3));
+  return ZIP3_STATES.find(([from, to]) => prefix >= from && prefix <= to)?.[2];
+}
+
+export function defaultTcoInputs(analysis: Pick<CarAnalysis, 'price'>): TcoInputs {
+  return {
+    zip: '',
+    annualMiles: TYPICAL_MILES_PER_YEAR,
+    apr: 7.5,
+    termMonths: 60,
+    downPayment: Math.round((analysis.price || 0) * 0.2 / 100) * 100,
+  };
+}
+
+function makeClass(make: string): 'retaining' | 'luxury' | 'standard' {
+  const name = make.trim().toLowerCase();
+  if (LUXURY_MAKES.includes(name)) return 'luxury';
+  if (VALUE_RETAINING_MAKES.includes(name)) return 'retaining';
+  return 'standard';
+}
+
+/** Share of value lost in a year at the given age, before mileage and make adjustments. */
+function depreciationRate(age: number): number {
+  if (age < 3) return 0.15;
+  if (age < 7) return 0.12;
+  return 0.08;
+}
+
+/** Interest paid during the first `months` of an amortized loan. */
+function interestPaid(principal: number, apr: number, termMonths: number, months: number): { interest: number; payment: number } {
+  const payment = monthlyPayment(principal, apr, termMonths);
+  const rate = apr / 100 / 12;
+  let balance = principal;
+  let interest = 0;
+  for (let month = 0; payment > 0 && month < Math.min(months, termMonths); month++) {
+    const charge = balance * rate;
+    interest += charge;
+    balance -= payment - charge;
+  }
+  return { interest, payment };
+}
+
+function fuelCostPerMile(analysis: CarAnalysis): { cost: number; assumption: string } {
+  const fuel = `${analysis.vinData?.fuelType || ''} ${analysis.vinData?.electrification || ''}`.toLowerCase();
+  const body = (analysis.vinData?.bodyClass || analysis.model || '').toLowerCase();
+
+  if (/electric|bev/.test(fuel) && !/hybrid|hev|phev/.test(fuel)) {
+    return {
+      cost: EV_KWH_PER_MILE * ELECTRICITY_PRICE,
+      assumption: `${EV_KWH_PER_MILE} kWh/mi at $${ELECTRICITY_PRICE}/kWh`,
+    };
+  }
+  if (/hybrid|hev/.test(fuel)) {
+    return { cost: GAS_PRICE / 45, assumption: `45 mpg (hybrid) at $${GAS_PRICE}/gal` };
+  }
+  if (fuel.includes('diesel')) {
+    return { cost: DIESEL_PRICE / 30, assumption: `30 mpg (diesel) at $${DIESEL_PRICE}/gal` };
+  }
+  const mpg = /pickup|truck/.test(body) ? 19 : /sport utility|suv|van|crossover/.test(body) ? 24 : /sedan|hatchback|coupe/.test(body) ? 30 : 26;
+  return { cost: GAS_PRICE / mpg, assumption: `${mpg} mpg at $${GAS_PRICE}/gal` };
+}
+
+/**
+ * Projects what owning the car costs over TCO_YEARS years. Every rate here is
+ * a national or state-level average, so the result is a planning estimate,
+ * not a quote; the assumptions list spells out what was used.
+ */
+export function calculateTco(
+  analysis: CarAnalysis,
+  inputs: TcoInputs,
+  referenceYear = new Date().getFullYear(),
+): TcoResult {
+  const price = analysis.price || 0;
+  const state = stateForZip(inputs.zip);
+  const tier = makeClass(analysis.make || '');
+  const assumptions: string[] = [];
+
+  // Taxes and fees, paid up front and financed along with the car
+  const taxRate = state ? SALES_TAX[state] ?? NATIONAL_SALES_TAX : NATIONAL_SALES_TAX;
+  const salesTax = price * taxRate / 100;
+  const taxesAndFees = salesTax + TITLE_AND_DOC_FEES + ANNUAL_REGISTRATION * TCO_YEARS;
+  assumptions.push(state
+    ? `${state} sales tax ${taxRate}% (state rate, local taxes not included)`
+    : `${NATIONAL_SALES_TAX}% sales tax (enter a ZIP for your state's rate)`);
+
+  // Depreciation, faster for high-mileage years and luxury makes
+  const extraMiles = Math.max(-6000, inputs.annualMiles - TYPICAL_MILES_PER_YEAR);
+  const makeFactor = tier === 'luxury' ? 1.25 : tier === 'retaining' ? 0.8 : 1;
+  let value = price;
+  for (let year = 0; year < TCO_YEARS; year++) {
+    const age = Math.max(0, referenceYear - (analysis.year || referenceYear)) + year;
+    const rate = (depreciationRate(age) + extraMiles / 1000 * 0.004) * makeFactor;
+    value *= 1 - Math.min(0.5, Math.max(0.02, rate));
+  }
+  const resaleValue = Math.round(value);
+
+  const principal = Math.max(0, price + salesTax + TITLE_AND_DOC_FEES - inputs.downPayment);
+  const loan = interestPaid(principal, inputs.apr, inputs.termMonths, TCO_YEARS * 12);
+  if (inputs.termMonths > 0) {
+    assumptions.push(`$${Math.round(principal).toLocaleString()} financed at ${inputs.apr}% over ${inputs.termMonths} months`);
+  }
+
+  const fuelRate = fuelCostPerMile(analysis);
+  const fuel = fuelRate.cost * inputs.annualMiles * TCO_YEARS;
+  assumptions.push(fuelRate.assumption);
+
+  const stateFactor = state ? INSURANCE_FACTOR[state] ?? 1 : 1;
+  const age = Math.max(0, referenceYear - (analysis.year || referenceYear));
+  const insurance = BASE_INSURANCE * stateFactor * (tier === 'luxury' ? 1.25 : 1) * (age > 10 ? 0.85 : 1) * TCO_YEARS;
+  assumptions.push(`Insurance from a $${BASE_INSURANCE.toLocaleString()}/yr national average${stateFactor !== 1 ? `, adjusted ×${stateFactor} for ${state}` : ''}`);
+
+  // Maintenance grows with the odometer: half again as much at 150k miles as at zero
+  const baseMaintenance = tier === 'luxury' ? 1200 : 700;
+  let maintenance = 0;
+  for (let year = 0; year < TCO_YEARS; year++) {
+    const odometer = (analysis.mileage || 0) + inputs.annualMiles * (year + 0.5);
+    maintenance += baseMaintenance * (1 + odometer / 150000 * 0.5);
+  }
+  assumptions.push(`Maintenance from $${baseMaintenance}/yr for a ${tier === 'luxury' ? 'luxury' : 'mainstream'} make, rising with mileage`);
+
+  const breakdown = {
+    depreciation: Math.round(price - resaleValue),
+    financing: Math.round(loan.interest),
+    fuel: Math.round(fuel),
+    insurance: Math.round(insurance),
+    taxesAndFees: Math.round(taxesAndFees),
+    maintenance: Math.round(maintenance),
+  };
+  const total = Object.values(breakdown).reduce((sum, amount) => sum + amount, 0);
+
+  return {
+    years: TCO_YEARS,
+    total,
+    perMonth: Math.round(total / (TCO_YEARS * 12)),
+    state,
+    monthlyPayment: Math.round(loan.payment),
+    resaleValue,
+    breakdown,
+    assumptions,
+  };
+}
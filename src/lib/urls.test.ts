@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalListingUrl, extractListingUrls, isHttpUrl } from './urls';
+
+describe('canonicalListingUrl', () => {
+  it('gives every spelling of a listing the same URL', () => {
+    const canonical = 'https://cars.example.com/listing/123?color=red&id=9';
+    expect(canonicalListingUrl('https://cars.example.com/listing/123?id=9&color=red')).toBe(canonical);
+    expect(canonicalListingUrl('http://WWW.Cars.Example.com/listing/123/?color=red&id=9#photos')).toBe(canonical);
+    expect(canonicalListingUrl('https://cars.example.com/listing/123?utm_source=fb&id=9&fbclid=abc&color=red&ref=home')).toBe(canonical);
+  });
+
+  it('drops an empty query', () => {
+    expect(canonicalListingUrl('https://example.com/listings/2019-honda-civic-ex/?utm_medium=email')).toBe('https://example.com/listings/2019-honda-civic-ex');
+  });
+
+  it('keeps the path case', () => {
+    expect(canonicalListingUrl('https://example.com/Listing/ABC')).toBe('https://example.com/Listing/ABC');
+  });
+
+  it('returns null for anything that is not an http(s) URL', () => {
+    expect(canonicalListingUrl('ftp://example.com/listing')).toBeNull();
+    expect(canonicalListingUrl('not a url')).toBeNull();
+  });
+});
+
+describe('isHttpUrl', () => {
+  it('accepts only http and https URLs', () => {
+    expect(isHttpUrl('https://example.com')).toBe(true);
+    expect(isHttpUrl('http://example.com/a?b=c')).toBe(true);
+    expect(isHttpUrl('javascript:alert(1)')).toBe(false);
+    expect(isHttpUrl('example.com')).toBe(false);
+    expect(isHttpUrl(42)).toBe(false);
+  });
+});
+
+describe('extractListingUrls', () => {
+  it('pulls unique URLs out of pasted text and CSV rows', () => {
+    const text = [
+      'url,price',
+      'https://example.com/a,12000',
+      '"https://example.com/b";9000',
+      'see (https://example.com/c). and https://example.com/a again',
+    ].join('\n');
+    expect(extractListingUrls(text)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      'https://example.com/c',
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pulls every http(s) URL out of pasted text or an uploaded .txt/.csv file,
+ * dropping duplicates and any trailing CSV punctuation.
+ */
+export function extractListingUrls(text: string): string[] {
+  const matches = text.match(/https?:\/\/[^\s,;"'<>]+/gi) || [];
+  const urls = matches.map(url => url.replace(/[).\]]+$/, '')).filter(isHttpUrl);
+  return [...new Set(urls)];
+}
+
+// Query parameters that track the click rather than identify the listing
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid', 'igshid', 'mc_cid', 'mc_eid', 'ref', 'ref_src', 'referrer', 'source', 'cmp', 'campaign']);
+
+/**
+ * One spelling per listing: lowercases the host, drops "www.", the fragment,
+ * tracking parameters and any trailing slash, and sorts what is left of the
+ * query. Returns null for anything that is not an http(s) URL.
+ */
+export function canonicalListingUrl(value: string): string | null {
+  if (!isHttpUrl(value)) return null;
+  const url = new URL(value);
+  const params = [...url.searchParams]
+    .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const host = url.host.toLowerCase().replace(/^www\./, '');
+  const path = url.pathname.replace(/\/+$/, '');
+  return `https://${host}${path}${query ? `?${query}` : ''}`;
+}
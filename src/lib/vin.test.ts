@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { checkVin, computeCheckDigit, decodeModelYear } from './vin';
+
+describe('checkVin', () => {
+  it('decodes a valid VIN', () => {
+    expect(checkVin('2HGFC2F74KH512345', {}, 2026)).toEqual({
+      valid: true,
+      errors: [],
+      mismatches: [],
+      decoded: { manufacturer: 'Honda', country: 'Canada', modelYear: 2019 },
+    });
+  });
+
+  it('trims and uppercases before checking', () => {
+    expect(checkVin('  2hgfc2f74kh512345 ', {}, 2026).valid).toBe(true);
+  });
+
+  it('uses the 1980s-2000s cycle when position 7 is a digit', () => {
+    expect(checkVin('1HGCM82633A004352', {}, 2026).decoded).toEqual({
+      manufacturer: 'Honda',
+      country: 'United States',
+      modelYear: 2003,
+    });
+  });
+
+  it('rejects a wrong check digit', () => {
+    const check = checkVin('2HGFC2F75KH512345', {}, 2026);
+    expect(check.valid).toBe(false);
+    expect(check.errors).toEqual(['Check digit is 5 but should be 4; the VIN is likely mistyped or invented']);
+    expect(check.decoded).toBeUndefined();
+  });
+
+  it('rejects the wrong length and letters never used in VINs', () => {
+    expect(checkVin('2HGFC2F74KH5123', {}, 2026).errors).toEqual(['VIN must be 17 characters (got 15)']);
+    expect(checkVin('2HGFC2F74KH51234O', {}, 2026).errors).toEqual(['VIN contains characters never used in VINs: O']);
+    expect(checkVin('2HGFC2F74KH5123-5', {}, 2026).errors).toEqual(['VIN contains characters other than letters and digits']);
+  });
+
+  it('reports a listing that disagrees with the VIN', () => {
+    expect(checkVin('2HGFC2F74KH512345', { make: 'Toyota', year: 2017 }, 2026).mismatches).toEqual([
+      'VIN decodes to model year 2019 but the listing says 2017',
+      'VIN belongs to Honda but the listing says Toyota',
+    ]);
+  });
+
+  it('accepts make aliases and shared manufacturer codes', () => {
+    expect(checkVin('1HGCM82633A004352', { make: 'honda', year: 2003 }, 2026).mismatches).toEqual([]);
+    expect(checkVin('1C4RJFAG0FC625797', { make: 'Jeep', year: 2015 }, 2026)).toMatchObject({
+      valid: true,
+      mismatches: [],
+      decoded: { manufacturer: 'Chrysler / Dodge / Jeep' },
+    });
+    expect(checkVin('1GNSKCKC8FR123455', { make: 'chevy' }, 2026).mismatches).toEqual([]);
+  });
+});
+
+describe('computeCheckDigit', () => {
+  it('computes the ISO 3779 check digit, with X for 10', () => {
+    expect(computeCheckDigit('1HGCM82633A004352')).toBe('3');
+    expect(computeCheckDigit('2HGFC2F74KH512345')).toBe('4');
+    expect(computeCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+  });
+});
+
+describe('decodeModelYear', () => {
+  it('does not decode a model year after next year', () => {
+    expect(decodeModelYear('2HGFC2F74KH512345', 2026)).toBe(2019);
+    expect(decodeModelYear('2HGFC2F74YH512345', 2026)).toBe(2000);
+    expect(decodeModelYear('2HGFC2F74RH512345', 2026)).toBe(2024);
+  });
+
+  it('returns undefined for a year code that does not exist', () => {
+    expect(decodeModelYear('2HGFC2F74UH512345', 2026)).toBeUndefined();
+  });
+});
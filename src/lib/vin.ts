@@ -0,0 +1,142 @@
+import type { VinCheck } from '../types';
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles through these codes every 30 years, starting at 1980 (A).
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// Common world manufacturer identifiers. Several makes share a WMI, so each maps to every make it may legitimately carry.
+const WMI_MAKES: Record<string, string[]> = {
+  '1C3': ['Chrysler', 'Dodge'], '1C4': ['Chrysler', 'Dodge', 'Jeep'], '1C6': ['Ram', 'Dodge'],
+  '1FA': ['Ford'], '1FM': ['Ford'], '1FT': ['Ford'], '1FD': ['Ford'], '1LN': ['Lincoln'],
+  '1G1': ['Chevrolet'], '1GC': ['Chevrolet'], '1GN': ['Chevrolet'], '1GT': ['GMC'], '1GK': ['GMC'],
+  '1G6': ['Cadillac'], '1GY': ['Cadillac'], '1G4': ['Buick'], '1HG': ['Honda'], '19X': ['Honda'],
+  '19U': ['Acura'], '1J4': ['Jeep'], '1N4': ['Nissan'], '1N6': ['Nissan'], '1VW': ['Volkswagen'],
+  '2C3': ['Chrysler', 'Dodge'], '2C4': ['Chrysler', 'Dodge'], '2FM': ['Ford'], '2G1': ['Chevrolet'],
+  '2HG': ['Honda'], '2HK': ['Honda'], '2HJ': ['Honda'], '2T1': ['Toyota'], '2T2': ['Lexus'], '2T3': ['Toyota'],
+  '3C4': ['Chrysler', 'Dodge', 'Jeep'], '3C6': ['Ram', 'Dodge'], '3FA': ['Ford'], '3GN': ['Chevrolet'],
+  '3GC': ['Chevrolet'], '3N1': ['Nissan'], '3VW': ['Volkswagen'], '3MZ': ['Mazda'],
+  '4S3': ['Subaru'], '4S4': ['Subaru'], '4T1': ['Toyota'], '4T3': ['Toyota'], '4JG': ['Mercedes-Benz'],
+  '5FN': ['Honda'], '5J6': ['Honda'], '5J8': ['Acura'], '5N1': ['Nissan'], '5NP': ['Hyundai'], '5NM': ['Hyundai'],
+  '5TD': ['Toyota'], '5TF': ['Toyota'], '5UX': ['BMW'], '5YJ': ['Tesla'], '7SA': ['Tesla'], '5XY': ['Kia'],
+  'JF1': ['Subaru'], 'JF2': ['Subaru'], 'JHM': ['Honda'], 'JH4': ['Acura'], 'JM1': ['Mazda'], 'JM3': ['Mazda'],
+  'JN1': ['Nissan', 'Infiniti'], 'JN8': ['Nissan', 'Infiniti'], 'JTD': ['Toyota'], 'JTE': ['Toyota'],
+  'JTH': ['Lexus'], 'JTJ': ['Lexus'], 'JTM': ['Toyota'], 'JTN': ['Toyota'], 'JA3': ['Mitsubishi'], 'JA4': ['Mitsubishi'],
+  'KM8': ['Hyundai'], 'KMH': ['Hyundai', 'Genesis'], 'KNA': ['Kia'], 'KND': ['Kia'], 'KNM': ['Nissan'],
+  'SAJ': ['Jaguar'], 'SAL': ['Land Rover'], 'SCC': ['Lotus'], 'SHH': ['Honda'],
+  'VF1': ['Renault'], 'VF3': ['Peugeot'], 'VSS': ['SEAT'], 'WA1': ['Audi'], 'WAU': ['Audi'], 'WBA': ['BMW'],
+  'WBS': ['BMW'], 'WBY': ['BMW'], 'WDB': ['Mercedes-Benz'], 'WDD': ['Mercedes-Benz'], 'WDC': ['Mercedes-Benz'],
+  'W1K': ['Mercedes-Benz'], 'W1N': ['Mercedes-Benz'], 'WMW': ['MINI'], 'WP0': ['Porsche'], 'WP1': ['Porsche'],
+  'WVW': ['Volkswagen'], 'WVG': ['Volkswagen'], 'YV1': ['Volvo'], 'YV4': ['Volvo'], 'ZAR': ['Alfa Romeo'],
+  'ZFA': ['Fiat'], 'ZFF': ['Ferrari'], 'ZHW': ['Lamborghini'], 'LRW': ['Tesla'],
+};
+
+const MAKE_ALIASES: Record<string, string> = {
+  chevy: 'chevrolet',
+  vw: 'volkswagen',
+  mercedes: 'mercedes-benz',
+  benz: 'mercedes-benz',
+  'range rover': 'land rover',
+};
+
+function countryFor(vin: string): string | undefined {
+  const [first, second] = vin;
+  if ('12345'.includes(first)) return first === '2' ? 'Canada' : first === '3' ? 'Mexico' : 'United States';
+  if (first === 'J') return 'Japan';
+  if (first === 'K' && second >= 'L' && second <= 'R') return 'South Korea';
+  if (first === 'L') return 'China';
+  if (first === 'S' && second >= 'A' && second <= 'M') return 'United Kingdom';
+  if (first === 'V' && second >= 'F' && second <= 'R') return 'France';
+  if (first === 'V' && second >= 'S' && second <= 'W') return 'Spain';
+  if (first === 'W') return 'Germany';
+  if (first === 'Y' && second >= 'S' && second <= 'W') return 'Sweden';
+  if (first === 'Z' && second >= 'A' && second <= 'R') return 'Italy';
+  if (first === '9' && second >= 'A' && second <= 'E') return 'Brazil';
+  return undefined;
+}
+
+function normalizeMake(make: string): string {
+  const lower = make.trim().toLowerCase();
+  return MAKE_ALIASES[lower] || lower;
+}
+
+export function computeCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, i) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0;
+    return total + value * POSITION_WEIGHTS[i];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * Resolves the position-10 year code. The same letter repeats every 30 years;
+ * for light vehicles a letter in position 7 marks the 2010+ cycle.
+ */
+export function decodeModelYear(vin: string, referenceYear = new Date().getFullYear()): number | undefined {
+  const index = YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return undefined;
+  const early = 1980 + index;
+  const late = early + 30;
+  if (/[A-Z]/.test(vin[6])) return late <= referenceYear + 1 ? late : early;
+  return early;
+}
+
+/**
+ * Validates a VIN offline (length, alphabet, check digit) and decodes the WMI
+ * and model year. When the listing's make/year are given, disagreements with
+ * the decoded values are reported as mismatches.
+ */
+export function checkVin(
+  rawVin: string,
+  listing: { make?: string; year?: number } = {},
+  referenceYear = new Date().getFullYear(),
+): VinCheck {
+  const vin = rawVin.trim().toUpperCase();
+  const errors: string[] = [];
+  const mismatches: string[] = [];
+
+  if (vin.length !== 17) {
+    errors.push(`VIN must be 17 characters (got ${vin.length})`);
+  }
+  const illegal = [...new Set(vin.match(/[IOQ]/g) || [])];
+  if (illegal.length > 0) {
+    errors.push(`VIN contains characters never used in VINs: ${illegal.join(', ')}`);
+  }
+  if (/[^A-Z0-9]/.test(vin)) {
+    errors.push('VIN contains characters other than letters and digits');
+  }
+  if (errors.length === 0) {
+    const expected = computeCheckDigit(vin);
+    if (vin[8] !== expected) {
+      errors.push(`Check digit is ${vin[8]} but should be ${expected}; the VIN is likely mistyped or invented`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, mismatches };
+  }
+
+  const makes = WMI_MAKES[vin.slice(0, 3)];
+  const modelYear = decodeModelYear(vin, referenceYear);
+  const decoded = {
+    manufacturer: makes?.join(' / '),
+    country: countryFor(vin),
+    modelYear,
+  };
+
+  if (listing.year && modelYear && listing.year !== modelYear) {
+    mismatches.push(`VIN decodes to model year ${modelYear} but the listing says ${listing.year}`);
+  }
+  if (listing.make && makes && !makes.some(m => normalizeMake(m) === normalizeMake(listing.make!))) {
+    mismatches.push(`VIN belongs to ${decoded.manufacturer} but the listing says ${listing.make}`);
+  }
+
+  return { valid: true, errors, mismatches, decoded };
+}
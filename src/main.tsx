@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharedDealView from './components/SharedDealView.tsx';
 import './index.css';
 
+// Share links open a read-only page that needs no login
+const shareToken = window.location.pathname.match(/^\/share\/([\w-]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareToken ? <SharedDealView shareToken={shareToken} /> : <App />}
   </StrictMode>,
 );
@@ -0,0 +1,306 @@
+import type {
+  AnalysisErrorBody,
+  AnalysisErrorCode,
+  AnalysisProgressEvent,
+  Batch,
+  CarAnalysis,
+  DealComment,
+  DealShare,
+  DealStatus,
+  DealVersion,
+  DealVotes,
+  FinancingInputs,
+  FinancingPlan,
+  ListingSource,
+  NegotiationMessage,
+  SavedDeal,
+  SharedDeal,
+  TcoInputs,
+  WatchNotification,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceMember,
+} from '../types';
+
+export class ApiError extends Error {
+  /** Set for failed analyses, so the UI can offer a recovery that fits. */
+  code?: AnalysisErrorCode;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, public status: number, details: Omit<AnalysisErrorBody, 'error'> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = details.code;
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+}
+
+function toApiError(data: Partial<AnalysisErrorBody> | null, status: number): ApiError {
+  return new ApiError(data?.error || `Request failed with status ${status}`, status, {
+    code: data?.code,
+    retryAfterSeconds: typeof data?.retryAfterSeconds === 'number' ? data.retryAfterSeconds : undefined,
+  });
+}
+
+async function request<T>(path: string, token: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw toApiError(data, response.status);
+  }
+  return data as T;
+}
+
+export interface AnalyzeOptions {
+  /** Skip the server's cache of recent analyses of this listing URL. */
+  refresh?: boolean;
+  /** Called with each stage and partial result as the pipeline runs. */
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  /** Aborting stops the analysis on the server too. */
+  signal?: AbortSignal;
+}
+
+/** Runs an analysis over the streaming endpoint and resolves with the final result. */
+export async function analyzeListing(
+  source: ListingSource,
+  token: string,
+  { refresh = false, onProgress, signal }: AnalyzeOptions = {},
+): Promise<CarAnalysis> {
+  const response = await fetch('/api/analyze/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify({ source, refresh }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw toApiError(await response.json().catch(() => null), response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += value ?? '';
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as AnalysisProgressEvent;
+      if (event.type === 'result') return event.analysis;
+      if (event.type === 'error') throw toApiError(event, event.status);
+      onProgress?.(event);
+    }
+    if (done) break;
+  }
+  throw new ApiError('The analysis ended without a result. Please try again.', 502);
+}
+
+/** Rewrites the pitch around budget-based price targets, for a saved deal or an unsaved analysis. */
+export function rewritePitch(
+  target: { dealId: string } | { analysis: CarAnalysis },
+  financing: FinancingInputs,
+  token: string,
+): Promise<{ negotiationPitch: string; financing: FinancingPlan }> {
+  return request('/api/analyze/pitch', token, {
+    method: 'POST',
+    body: JSON.stringify({ ...target, financing }),
+  });
+}
+
+/**
+ * Saves an analysis as a deal, to a workspace or the personal list. Saving the
+ * same car again adds a version to the deal already saved, which is returned.
+ */
+export function saveDeal(analysis: CarAnalysis, url: string, workspaceId: number | null, token: string): Promise<SavedDeal> {
+  return request<SavedDeal>('/api/deals', token, {
+    method: 'POST',
+    body: JSON.stringify({ ...analysis, url, workspaceId }),
+  });
+}
+
+export interface DealPatch {
+  watched?: boolean;
+  tcoInputs?: TcoInputs | null;
+  /** Moves the deal into a workspace, or back to the personal list with null. */
+  workspaceId?: number | null;
+  notes?: string;
+  tags?: string[];
+  status?: DealStatus;
+}
+
+export function updateDeal(id: string, patch: DealPatch, token: string): Promise<SavedDeal> {
+  return request<SavedDeal>(`/api/deals/${id}`, token, {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+  });
+}
+
+export function fetchNegotiation(dealId: string, token: string): Promise<NegotiationMessage[]> {
+  return request<NegotiationMessage[]>(`/api/deals/${dealId}/negotiation`, token);
+}
+
+/** Returns the stored user message and the coach's reply. */
+export function sendNegotiationMessage(dealId: string, text: string, token: string): Promise<NegotiationMessage[]> {
+  return request<NegotiationMessage[]>(`/api/deals/${dealId}/negotiation`, token, {
+    method: 'POST',
+    body: JSON.stringify({ text }),
+  });
+}
+
+export function clearNegotiation(dealId: string, token: string): Promise<void> {
+  return request<void>(`/api/deals/${dealId}/negotiation`, token, { method: 'DELETE' });
+}
+
+export function fetchShares(dealId: string, token: string): Promise<DealShare[]> {
+  return request<DealShare[]>(`/api/deals/${dealId}/shares`, token);
+}
+
+export function createShare(
+  dealId: string,
+  options: { hidePitch: boolean; expiresInDays: number | null },
+  token: string,
+): Promise<DealShare> {
+  return request<DealShare>(`/api/deals/${dealId}/shares`, token, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
+export function revokeShare(dealId: string, shareId: number, token: string): Promise<void> {
+  return request<void>(`/api/deals/${dealId}/shares/${shareId}`, token, { method: 'DELETE' });
+}
+
+/** Loads a deal through its public share link; needs no login. */
+export async function fetchSharedDeal(shareToken: string): Promise<SharedDeal> {
+  const response = await fetch(`/api/shared/${encodeURIComponent(shareToken)}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw toApiError(data, response.status);
+  }
+  return data as SharedDeal;
+}
+
+/** Personal deals, or the deals everyone has saved to a workspace. */
+export function fetchDeals(token: string, workspaceId?: number | null): Promise<SavedDeal[]> {
+  return request<SavedDeal[]>(workspaceId ? `/api/deals?workspace=${workspaceId}` : '/api/deals', token);
+}
+
+export function deleteDeal(id: string, token: string): Promise<void> {
+  return request<void>(`/api/deals/${id}`, token, { method: 'DELETE' });
+}
+
+export function fetchDealVersions(id: string, token: string): Promise<DealVersion[]> {
+  return request<DealVersion[]>(`/api/deals/${id}/versions`, token);
+}
+
+/** Analyzes the deal's listing again; the result becomes its newest version. */
+export function reanalyzeDeal(id: string, token: string): Promise<SavedDeal> {
+  return request<SavedDeal>(`/api/deals/${id}/reanalyze`, token, { method: 'POST' });
+}
+
+export function voteOnDeal(dealId: string, value: -1 | 0 | 1, token: string): Promise<DealVotes> {
+  return request<DealVotes>(`/api/deals/${dealId}/vote`, token, {
+    method: 'PUT',
+    body: JSON.stringify({ value }),
+  });
+}
+
+export function fetchComments(dealId: string, token: string): Promise<DealComment[]> {
+  return request<DealComment[]>(`/api/deals/${dealId}/comments`, token);
+}
+
+export function postComment(dealId: string, text: string, parentId: number | null, token: string): Promise<DealComment> {
+  return request<DealComment>(`/api/deals/${dealId}/comments`, token, {
+    method: 'POST',
+    body: JSON.stringify({ text, parentId }),
+  });
+}
+
+export function deleteComment(dealId: string, commentId: number, token: string): Promise<void> {
+  return request<void>(`/api/deals/${dealId}/comments/${commentId}`, token, { method: 'DELETE' });
+}
+
+export function fetchWorkspaces(token: string): Promise<Workspace[]> {
+  return request<Workspace[]>('/api/workspaces', token);
+}
+
+export function createWorkspace(name: string, token: string): Promise<Workspace> {
+  return request<Workspace>('/api/workspaces', token, {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function fetchWorkspaceMembers(
+  workspaceId: number,
+  token: string,
+): Promise<{ members: WorkspaceMember[]; invites: WorkspaceInvite[] }> {
+  return request(`/api/workspaces/${workspaceId}/members`, token);
+}
+
+export function inviteToWorkspace(workspaceId: number, email: string, token: string): Promise<WorkspaceInvite> {
+  return request<WorkspaceInvite>(`/api/workspaces/${workspaceId}/invites`, token, {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+export function leaveWorkspace(workspaceId: number, token: string): Promise<void> {
+  return request<void>(`/api/workspaces/${workspaceId}/members/me`, token, { method: 'DELETE' });
+}
+
+/** Owner only. */
+export function removeWorkspaceMember(workspaceId: number, userId: number, token: string): Promise<void> {
+  return request<void>(`/api/workspaces/${workspaceId}/members/${userId}`, token, { method: 'DELETE' });
+}
+
+/** Owner only. */
+export function revokeWorkspaceInvite(workspaceId: number, inviteId: number, token: string): Promise<void> {
+  return request<void>(`/api/workspaces/${workspaceId}/invites/${inviteId}`, token, { method: 'DELETE' });
+}
+
+/** Invites addressed to the signed-in user's email. */
+export function fetchWorkspaceInvites(token: string): Promise<WorkspaceInvite[]> {
+  return request<WorkspaceInvite[]>('/api/workspaces/invites', token);
+}
+
+export function acceptWorkspaceInvite(inviteId: number, token: string): Promise<void> {
+  return request<void>(`/api/workspaces/invites/${inviteId}/accept`, token, { method: 'POST' });
+}
+
+export function declineWorkspaceInvite(inviteId: number, token: string): Promise<void> {
+  return request<void>(`/api/workspaces/invites/${inviteId}`, token, { method: 'DELETE' });
+}
+
+export function fetchNotifications(token: string): Promise<WatchNotification[]> {
+  return request<WatchNotification[]>('/api/notifications', token);
+}
+
+export function markNotificationsRead(token: string, ids?: number[]): Promise<void> {
+  return request<void>('/api/notifications/read', token, {
+    method: 'POST',
+    body: JSON.stringify({ ids }),
+  });
+}
+
+export function createBatch(urls: string[], token: string): Promise<Batch> {
+  return request<Batch>('/api/batches', token, {
+    method: 'POST',
+    body: JSON.stringify({ urls }),
+  });
+}
+
+export function fetchBatch(id: number, token: string): Promise<Batch> {
+  return request<Batch>(`/api/batches/${id}`, token);
+}
@@ -0,0 +1,371 @@
+export interface CarAnalysis {
+  make: string;
+  model: string;
+  year: number;
+  price: number;
+  mileage: number;
+  location: string;
+  condition: string;
+  dealRating: "Great" | "Good" | "Fair" | "Poor" | "Suspicious";
+  dealScore: number; // 0-100
+  scoreBreakdown?: DealScoreBreakdown;
+  source?: AnalysisSource;
+  sources?: Partial<Record<SourcePath, FieldSource>>;
+  tco?: TcoEstimate; // set by the user on the results page, stored with saved deals
+  financing?: FinancingPlan; // the budget and price targets the current pitch was written for
+  cache?: AnalysisCacheInfo; // set by the analyze endpoint only, never stored with a deal
+  summary: string;
+  redFlags: RedFlag[];
+  pros: string[];
+  cons: string[];
+  marketComparison: {
+    averagePrice: number;
+    lowPrice: number;
+    highPrice: number;
+    similarCarsCount: number;
+  };
+  negotiationPitch: string;
+  vin?: string;
+  vinData?: {
+    manufacturer?: string;
+    plantCountry?: string;
+    bodyClass?: string;
+    engineHP?: string;
+    fuelType?: string;
+    displacementL?: string;
+    driveType?: string;
+    trim?: string;
+    electrification?: string;
+    recalls?: Recall[];
+    excludedRecalls?: { campaignNumber: string; reason: string }[];
+    accidentHistory?: string;
+    titleStatus?: string;
+    vinCheck?: VinCheck;
+  };
+}
+
+/** The steps of one analysis, in the order they run. */
+export type AnalysisStage = "listing" | "extraction" | "vin" | "recalls" | "scoring";
+
+export type AnalysisStageStatus = "running" | "done" | "failed" | "skipped";
+
+/** Why an analysis failed, so the UI can offer the right way forward. */
+export type AnalysisErrorCode =
+  | "rate_limited"
+  | "quota_exceeded"
+  | "listing_unreachable"
+  | "model_output_invalid"
+  | "upstream_timeout"
+  | "upstream_error";
+
+export interface AnalysisErrorBody {
+  error: string;
+  code?: AnalysisErrorCode;
+  /** How long to wait before trying again, when the limit says. */
+  retryAfterSeconds?: number;
+}
+
+/** One line of the streamed analyze response (newline-delimited JSON). */
+export type AnalysisProgressEvent =
+  | { type: "stage"; stage: AnalysisStage; status: AnalysisStageStatus; detail?: string }
+  | { type: "partial"; analysis: Partial<CarAnalysis> }
+  | { type: "result"; analysis: CarAnalysis }
+  | ({ type: "error"; status: number } & AnalysisErrorBody);
+
+/** One field that differs between two analyses of the same listing or VIN. */
+export interface AnalysisChange {
+  field: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface AnalysisCacheInfo {
+  /** True when this result was served from the cache instead of a new model run. */
+  cached: boolean;
+  analyzedAt: string;
+  /** When this listing (or VIN) was analyzed before this result, if ever. */
+  previousAnalyzedAt?: string;
+  changes: AnalysisChange[];
+}
+
+export type RedFlagCategory = "title" | "mechanical" | "pricing" | "scam" | "documentation" | "other";
+
+export type RedFlagSeverity = "critical" | "high" | "medium" | "low";
+
+export interface RedFlag {
+  category: RedFlagCategory;
+  severity: RedFlagSeverity;
+  message: string;
+  evidence?: string; // quote from the listing that shows the problem
+  source: "ai" | "rules"; // the model, or the local scam-pattern rules
+  rule?: string; // id of the rule that raised or confirmed it
+}
+
+// "extracted": parsed from the listing by the server, "inferred": read or
+// deduced from the listing by the model, "search": taken from a web search
+// result, "estimated": the model's guess.
+export type FieldOrigin = "extracted" | "inferred" | "search" | "estimated";
+
+export type SourcedField =
+  | "make"
+  | "model"
+  | "year"
+  | "price"
+  | "mileage"
+  | "location"
+  | "condition"
+  | "vin"
+  | "vinData.titleStatus"
+  | "vinData.accidentHistory"
+  | "marketComparison";
+
+// Dotted path into CarAnalysis; red flags are addressed by index
+export type SourcePath = SourcedField | `redFlags.${number}`;
+
+export interface Citation {
+  url: string;
+  title?: string;
+}
+
+export interface FieldSource {
+  origin: FieldOrigin;
+  confidence: number; // 0-1
+  citations: Citation[];
+}
+
+export interface ScoreFactor {
+  key: "price" | "mileage" | "age" | "title" | "recalls" | "redFlags" | "ai";
+  label: string;
+  score: number; // 0-100
+  weight: number; // share of the final score, factors sum to 1
+  detail: string;
+}
+
+export interface DealScoreBreakdown {
+  score: number;
+  rating: CarAnalysis["dealRating"];
+  factors: ScoreFactor[];
+  aiScore?: number; // the model's own dealScore, kept as one weighted input
+}
+
+export interface VinCheck {
+  valid: boolean; // structure and ISO 3779 check digit
+  errors: string[];
+  mismatches: string[]; // decoded make/year disagreeing with the listing
+  decoded?: {
+    manufacturer?: string;
+    country?: string;
+    modelYear?: number;
+  };
+}
+
+export interface Recall {
+  campaignNumber: string;
+  component: string;
+  summary: string;
+  consequence: string;
+  remedy: string;
+  reportDate?: string; // YYYY-MM-DD
+  parkIt: boolean; // NHTSA "do not drive" advisory
+  parkOutside: boolean; // fire risk, park outdoors
+  remedyAvailable: boolean;
+  // Whether the repair was done on this VIN. NHTSA's public API does not
+  // expose per-VIN completion, so this stays "unknown" unless a source says otherwise.
+  completion: "open" | "closed" | "unknown";
+}
+
+export interface TcoInputs {
+  zip: string; // blank uses national averages
+  annualMiles: number;
+  apr: number; // percent
+  termMonths: number; // 0 for a cash purchase
+  downPayment: number;
+}
+
+export interface TcoResult {
+  years: number;
+  total: number;
+  perMonth: number;
+  state?: string; // two-letter code resolved from the ZIP
+  monthlyPayment: number;
+  resaleValue: number;
+  breakdown: {
+    depreciation: number;
+    financing: number;
+    fuel: number;
+    insurance: number;
+    taxesAndFees: number;
+    maintenance: number;
+  };
+  assumptions: string[];
+}
+
+export interface TcoEstimate {
+  inputs: TcoInputs;
+  result: TcoResult;
+  calculatedAt: string;
+}
+
+export interface FinancingInputs {
+  monthlyBudget: number; // 0 for no budget limit
+  apr: number; // percent
+  termMonths: number; // 0 for a cash purchase
+  downPayment: number;
+}
+
+export interface PriceTarget {
+  price: number;
+  monthlyPayment: number;
+}
+
+export interface NegotiationTargets {
+  opening: PriceTarget;
+  target: PriceTarget;
+  walkAway: PriceTarget;
+  maxAffordablePrice: number | null; // highest price the monthly budget covers
+  overBudget: boolean; // even the opening offer exceeds the budget
+  notes: string[];
+}
+
+export interface FinancingPlan {
+  inputs: FinancingInputs;
+  targets: NegotiationTargets;
+  calculatedAt: string;
+}
+
+export interface NegotiationMessage {
+  id: number;
+  role: "user" | "coach"; // the user's message (often a pasted seller reply) or the coach's answer
+  text: string;
+  createdAt: string;
+}
+
+export interface DealShare {
+  id: number;
+  token: string; // the unguessable part of the /share/<token> link
+  hidePitch: boolean; // leaves out the negotiation pitch and the buyer's price targets
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// What anyone with a share link sees: the analysis without the owner's private data
+export interface SharedDeal extends CarAnalysis {
+  url: string;
+  hidePitch: boolean;
+  expiresAt: string | null;
+}
+
+export interface SavedDeal extends CarAnalysis {
+  _id: string;
+  url: string;
+  createdAt: string;
+  watched?: boolean;
+  priceHistory?: PricePoint[];
+  workspaceId?: number | null; // null for the owner's personal list
+  savedBy?: string; // email of the member who saved it
+  isOwn?: boolean; // false for a teammate's deal, which is read-only apart from comments and votes
+  votes?: DealVotes;
+  commentCount?: number;
+  notes?: string; // private to the owner; omitted on teammates' deals
+  tags?: string[];
+  status?: DealStatus;
+  versionCount?: number; // analyses kept for this deal, the current one included
+}
+
+// One analysis of a saved deal; the newest is the deal's current data
+export interface DealVersion {
+  id: number;
+  analyzedAt: string;
+  analysis: CarAnalysis;
+}
+
+// Where the buyer is with a saved car, from first look to outcome
+export type DealStatus = "considering" | "contacted" | "test_drove" | "offer_made" | "bought" | "passed";
+
+export interface DealVotes {
+  up: number;
+  down: number;
+  mine: -1 | 0 | 1;
+}
+
+export interface Workspace {
+  id: number;
+  name: string;
+  role: "owner" | "member";
+  memberCount: number;
+}
+
+export interface WorkspaceMember {
+  userId: number;
+  email: string;
+  role: Workspace["role"];
+  joinedAt: string;
+}
+
+export interface WorkspaceInvite {
+  id: number;
+  workspaceId: number;
+  workspaceName: string;
+  email: string;
+  invitedBy: string;
+  createdAt: string;
+}
+
+export interface DealComment {
+  id: number;
+  parentId: number | null; // the comment this replies to
+  author: string;
+  text: string;
+  createdAt: string;
+  mine: boolean;
+}
+
+export interface PricePoint {
+  price: number | null;
+  mileage: number | null;
+  status: "active" | "delisted";
+  checkedAt: string;
+}
+
+export interface WatchNotification {
+  id: number;
+  dealId: string | null;
+  kind: "price_drop" | "price_increase" | "delisted" | "relisted";
+  message: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface BatchItem {
+  id: number;
+  url: string;
+  status: "queued" | "running" | "done" | "failed";
+  attempts: number;
+  error: string | null;
+  result: CarAnalysis | null;
+}
+
+export interface Batch {
+  id: number;
+  createdAt: string;
+  items: BatchItem[];
+}
+
+export interface ListingImage {
+  mimeType: string;
+  data: string; // base64, no data: prefix
+}
+
+export type ListingSource =
+  | { kind: "url"; url: string }
+  | { kind: "text"; text: string; url?: string }
+  | { kind: "images"; images: ListingImage[]; url?: string };
+
+// What an analysis was produced from. Screenshots are not kept, only their count.
+export interface AnalysisSource {
+  kind: ListingSource["kind"];
+  url?: string;
+  text?: string;
+  imageCount?: number;
+}